@@ -0,0 +1,112 @@
+/**
+ * Clone benchmark: times the ways GitBackend clones a vault against a local file:// remote and prints a Markdown
+ * table (the one in the README). Builds a vault of WORKSPACES workspaces with FILES files each over COMMITS commits
+ * in a temp dir, deletes it afterwards. The vault serves --filter (uploadpack.allowFilter), as GitHub does.
+ * Run with `npm run bench` (environment variables override the sizes).
+ */
+import { execFileSync } from "child_process";
+import { mkdirSync, mkdtempSync, readdirSync, rmSync, statSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { GitBackend, type CloneOptions } from "../src/backend.js";
+
+const WORKSPACES = Number(process.env.WORKSPACES ?? 200);
+const FILES = Number(process.env.FILES ?? 25);
+const COMMITS = Number(process.env.COMMITS ?? 20);
+const RUNS = Number(process.env.RUNS ?? 5);
+/** Bytes of (incompressible) content per file. */
+const FILE_BYTES = 4096;
+
+const root = mkdtempSync(join(tmpdir(), "agvault-bench-"));
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync("git", args, { cwd, encoding: "utf-8", maxBuffer: 64 * 1024 * 1024 });
+}
+
+function randomText(bytes: number): string {
+  return Array.from({ length: bytes / 16 }, () => Math.random().toString(36).slice(2, 18).padEnd(16, "0")).join("");
+}
+
+/** Bare vault repo: every commit rewrites a share of the files, so history holds older versions of each. */
+function buildVault(): string {
+  const work = join(root, "work");
+  const bare = join(root, "vault.git");
+  mkdirSync(work);
+  git(root, "init", "-q", "--bare", "-b", "main", bare);
+  // Serve --filter like GitHub does; a bare repo without this sends every blob and the filter is ignored
+  git(bare, "config", "uploadpack.allowFilter", "true");
+  git(work, "init", "-q", "-b", "main");
+  git(work, "remote", "add", "origin", bare);
+  for (let c = 0; c < COMMITS; c++) {
+    for (let w = 0; w < WORKSPACES; w++) {
+      for (let f = 0; f < FILES; f++) {
+        if (c > 0 && (w + f + c) % COMMITS !== 0) continue;
+        const dir = join(work, "vault", `ws-${String(w).padStart(3, "0")}`);
+        mkdirSync(dir, { recursive: true });
+        writeFileSync(join(dir, `file-${f}.md`), randomText(FILE_BYTES));
+      }
+    }
+    git(work, "add", "-A");
+    git(work, "-c", "user.name=bench", "-c", "user.email=bench@example.com", "commit", "-q", "-m", `commit ${c}`);
+  }
+  git(work, "push", "-q", "origin", "main");
+  rmSync(work, { recursive: true, force: true });
+  return bare;
+}
+
+function folderBytes(dir: string): number {
+  let total = 0;
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    total += entry.isDirectory() ? folderBytes(path) : statSync(path).size;
+  }
+  return total;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+async function measure(repoUrl: string, options: CloneOptions): Promise<{ ms: number; bytes: number }> {
+  const times: number[] = [];
+  let bytes = 0;
+  for (let run = 0; run < RUNS; run++) {
+    const dir = join(root, `clone-${run}`);
+    const backend = new GitBackend(repoUrl, "main");
+    const start = process.hrtime.bigint();
+    await backend.clone(dir, options);
+    times.push(Number(process.hrtime.bigint() - start) / 1e6);
+    bytes = folderBytes(join(dir, ".git", "objects"));
+    await backend.close();
+    rmSync(dir, { recursive: true, force: true });
+  }
+  return { ms: median(times), bytes };
+}
+
+const MODES: Array<{ label: string; used: string; options: CloneOptions }> = [
+  { label: "Full clone", used: "(before: every command)", options: { history: true } },
+  { label: "`--depth 1`", used: "`purge`, `rekey`", options: {} },
+  { label: "`--depth 1 --filter=blob:none`, sparse", used: "`pull`, `store`, `sync`, `status`, `list`", options: { sparse: ["vault/ws-000"] } },
+  { label: "`--filter=blob:none`, sparse, full history", used: "`log`, `restore`", options: { sparse: ["vault/ws-000"], history: true } },
+];
+
+try {
+  const vault = buildVault();
+  const url = pathToFileURL(vault).href;
+  const packed = folderBytes(join(vault, "objects"));
+  const mb = (bytes: number) => `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  console.log(
+    `Vault: ${WORKSPACES} workspaces × ${FILES} files, ${COMMITS} commits, ${mb(packed)} of objects; ` +
+      `${url.slice(0, 7)} remote, median of ${RUNS} runs, git ${git(root, "--version").trim().replace("git version ", "")}, Node ${process.version}\n`
+  );
+  console.log("| Clone | Used by | Time | Objects fetched |");
+  console.log("|-------|---------|-----:|----------------:|");
+  for (const mode of MODES) {
+    const { ms, bytes } = await measure(url, mode.options);
+    console.log(`| ${mode.label} | ${mode.used} | ${(ms / 1000).toFixed(2)} s | ${mb(bytes)} |`);
+  }
+} finally {
+  rmSync(root, { recursive: true, force: true });
+}
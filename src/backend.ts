@@ -0,0 +1,775 @@
+import { createHash } from "crypto";
+import { cpSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync } from "fs";
+import { hostname, userInfo } from "os";
+import { dirname, join, resolve } from "path";
+import { fileURLToPath, pathToFileURL } from "url";
+import { simpleGit } from "simple-git";
+import type { SimpleGit } from "simple-git";
+import type { AgVaultConfig } from "./config.js";
+import type { CommitIdentity } from "./global-default.js";
+import type { VaultChanges } from "./commit-message.js";
+import { createGitHubRepoAndPush, ensureGhGitAuth, getRepoVisibility, isGhAvailable, parseGitHubRepoUrl } from "./gh.js";
+import { getCachePath, lockCache } from "./cache.js";
+import { WORKSPACES_FILE, formatWorkspaceRegistry, mergeRegistry, parseWorkspaceRegistry } from "./workspace.js";
+
+/**
+ * Where the vault lives:
+ * - "github": a GitHub repo (gh is used for credentials and to create the repo on first store)
+ * - "git": any other git remote (GitLab, Gitea, SSH host), a local bare repo or a file:// URL
+ * - "directory": a plain folder (e.g. a mounted share); no history
+ */
+export type BackendKind = "github" | "git" | "directory";
+
+export const BACKEND_KINDS: BackendKind[] = ["github", "git", "directory"];
+
+export interface VaultLogEntry {
+  commit: string;
+  /** ISO 8601 commit date. */
+  date: string;
+  /** Machine that made the commit (Agvault-Host trailer), or the author name for commits made outside agvault. */
+  host: string;
+  message: string;
+}
+
+/** Vault history (git backends only). Paths are relative to the vault root, e.g. "vault/<workspace>/AGENTS.md". */
+export interface VaultHistory {
+  /** Commits that touched pathspec, newest first. Empty when the vault has no commits yet. */
+  log(pathspec: string, limit?: number): Promise<VaultLogEntry[]>;
+  /** Resolve a commit SHA, revision (HEAD~2) or date ("the last commit before it") to a commit SHA. */
+  resolve(at: string): Promise<string>;
+  /** Files under pathspec as of a commit. */
+  listAt(commit: string, pathspec: string): Promise<string[]>;
+  readAt(commit: string, path: string): Promise<Buffer>;
+}
+
+export interface CloneOptions {
+  /**
+   * Only these folders (plus files at the vault root, such as workspaces.json) are checked out;
+   * files elsewhere are left untouched by commit and push. Everything is checked out when missing.
+   */
+  sparse?: string[];
+  /** Fetch the full history (log, restore). Otherwise only the latest commit is fetched. */
+  history?: boolean;
+  /**
+   * The command pushes and may create the vault (store, sync): a remote that does not exist yet becomes an empty vault,
+   * created on push. Otherwise a missing remote is an error, so a moved or unreachable vault never reads as empty.
+   */
+  create?: boolean;
+}
+
+/**
+ * Storage behind a vault. Every operation works on a temporary working copy: clone fills it,
+ * read/list/write change it, commit records the changes and push publishes them.
+ * Paths are relative to the vault root ("vault/<workspace>/...", "workspaces.json").
+ */
+export interface VaultBackend {
+  readonly kind: BackendKind;
+  /** Working copy directory (set by clone). */
+  readonly dir: string;
+  /**
+   * True when clone found nothing to read (the remote does not exist yet, is empty or lacks the branch) and set up
+   * an empty vault instead. Its missing files say nothing about deletions.
+   */
+  readonly fresh: boolean;
+  /** Fill dir (an empty directory) with the vault; an empty vault when there is none yet (see CloneOptions.create). */
+  clone(dir: string, options?: CloneOptions): Promise<void>;
+  /** File content, or null when the file does not exist. */
+  read(path: string): Buffer | null;
+  /** Files under a folder, relative to it, sorted. Empty when the folder does not exist. */
+  list(folder: string): string[];
+  /** Write a file, or delete it with null (empty parent folders are removed). */
+  write(path: string, data: Buffer | null): void;
+  /** Move a file or folder. */
+  move(from: string, to: string): void;
+  /** Changes in the working copy that the next commit records. */
+  changes(): Promise<VaultChanges>;
+  /** Record every change in the working copy. Returns false when there was nothing to record. */
+  commit(message: string): Promise<boolean>;
+  /** Publish recorded changes. */
+  push(): Promise<void>;
+  /** Version of the vault in the working copy (commit SHA), or null when the backend has none. */
+  revision(): Promise<string | null>;
+  /** History, or null when the backend keeps none. */
+  readonly history: VaultHistory | null;
+  /** True when the vault repo has this commit (false for a different or rewritten repo). */
+  containsCommit(commit: string): Promise<boolean>;
+  /** Release what clone acquired (cache worktree and lock). The caller deletes the working copy directory. */
+  close(): Promise<void>;
+}
+
+/** Backend for a config: config.backend, else "github" for GitHub URLs and "git" for everything else. */
+export function getBackendKind(config: AgVaultConfig): BackendKind {
+  return config.backend ?? (parseGitHubRepoUrl(config.repoUrl) ? "github" : "git");
+}
+
+/**
+ * Who git vault commits are by. The committer defaults to the author; without either, git's own identity
+ * (user.name / user.email) is used, or "<user> <agvault@<host>>" when git has none.
+ */
+export interface CommitIdentities {
+  author?: CommitIdentity;
+  committer?: CommitIdentity;
+}
+
+/** Backend for a config; identity signs the commits of git backends (e.g. the project's or its profile's author). */
+export function createBackend(config: AgVaultConfig, identity: CommitIdentities = {}): VaultBackend {
+  const branch = config.branch || "main";
+  const cache = config.cache === true;
+  switch (getBackendKind(config)) {
+    case "github":
+      return new GitHubBackend(config.repoUrl, branch, cache, config.allowPublicRepo === true, identity);
+    case "git":
+      return new GitBackend(config.repoUrl, branch, cache, config.allowPublicRepo === true, identity);
+    case "directory":
+      return new DirectoryBackend(toLocalPath(config.repoUrl));
+  }
+}
+
+/** True for a file:// URL or a filesystem path (not an https://, ssh:// or scp-style user@host:path remote). */
+export function isLocalRepoUrl(repoUrl: string): boolean {
+  const url = repoUrl.trim();
+  if (url.startsWith("file://")) return true;
+  if (/^[a-zA-Z]:[\\/]/.test(url)) return true;
+  return !/^[a-z][a-z0-9+.-]*:\/\//i.test(url) && !/^[^/\\]+:/.test(url);
+}
+
+/** Filesystem path of a local repo URL (file:// URLs are converted). */
+export function toLocalPath(repoUrl: string): string {
+  const url = repoUrl.trim();
+  return resolve(url.startsWith("file://") ? fileURLToPath(url) : url);
+}
+
+/** URL git clones from: a local path becomes a file:// URL, since git ignores --depth and --filter for plain paths. */
+function toCloneUrl(repoUrl: string): string {
+  return isLocalRepoUrl(repoUrl) && !repoUrl.trim().startsWith("file://") ? pathToFileURL(toLocalPath(repoUrl)).href : repoUrl;
+}
+
+/** Files under root, relative to it, sorted. */
+function walkFiles(root: string): string[] {
+  if (!existsSync(root)) return [];
+  const out: string[] = [];
+  const walk = (dir: string, prefix: string) => {
+    for (const e of readdirSync(dir, { withFileTypes: true })) {
+      const rel = prefix ? `${prefix}/${e.name}` : e.name;
+      if (e.isDirectory()) walk(join(dir, e.name), rel);
+      else out.push(rel);
+    }
+  };
+  walk(root, "");
+  return out.sort();
+}
+
+/** Shared file access on the working copy; subclasses decide how it is filled, recorded and published. */
+abstract class WorkingCopyBackend implements VaultBackend {
+  abstract readonly kind: BackendKind;
+  abstract readonly history: VaultHistory | null;
+  private workingDir: string | null = null;
+  fresh = false;
+
+  get dir(): string {
+    if (!this.workingDir) throw new Error("Vault is not cloned yet.");
+    return this.workingDir;
+  }
+
+  async clone(dir: string, options: CloneOptions = {}): Promise<void> {
+    this.workingDir = dir;
+    await this.fill(dir, options);
+  }
+
+  protected abstract fill(dir: string, options: CloneOptions): Promise<void>;
+  abstract changes(): Promise<VaultChanges>;
+  abstract commit(message: string): Promise<boolean>;
+  abstract push(): Promise<void>;
+  abstract revision(): Promise<string | null>;
+  abstract containsCommit(commit: string): Promise<boolean>;
+
+  async close(): Promise<void> {}
+
+  read(path: string): Buffer | null {
+    const full = join(this.dir, path);
+    return existsSync(full) && statSync(full).isFile() ? readFileSync(full) : null;
+  }
+
+  list(folder: string): string[] {
+    return walkFiles(join(this.dir, folder));
+  }
+
+  write(path: string, data: Buffer | null): void {
+    const full = join(this.dir, path);
+    if (data) {
+      mkdirSync(dirname(full), { recursive: true });
+      writeFileSync(full, data);
+      return;
+    }
+    rmSync(full, { force: true });
+    // Remove folders left empty, up to (not including) the working copy root
+    for (let parent = dirname(full); parent.startsWith(this.dir + "/") || parent.startsWith(this.dir + "\\"); parent = dirname(parent)) {
+      if (!existsSync(parent) || readdirSync(parent).length > 0) break;
+      rmSync(parent, { recursive: true });
+    }
+  }
+
+  move(from: string, to: string): void {
+    const dest = join(this.dir, to);
+    mkdirSync(dirname(dest), { recursive: true });
+    renameSync(join(this.dir, from), dest);
+  }
+}
+
+/** True when git can tell who commits in dir are by (git var fails when user.name / user.email cannot be determined). */
+async function hasGitIdent(dir: string, ident: "GIT_AUTHOR_IDENT" | "GIT_COMMITTER_IDENT"): Promise<boolean> {
+  try {
+    await simpleGit(dir).raw(["var", ident]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Identity of vault commits on a machine without a git identity: the login name at this host. */
+function fallbackIdentity(): CommitIdentity {
+  let name = "agvault";
+  try {
+    name = userInfo().username || name;
+  } catch {
+    // no passwd entry (e.g. some containers)
+  }
+  return { name, email: `agvault@${hostname()}` };
+}
+
+/** Trailer added to every vault commit so `agvault log` can show which machine made it. */
+const HOST_TRAILER = "Agvault-Host";
+
+/** GitHub repos whose visibility was checked in this process (one check per command, however many pushes). */
+const checkedRepos = new Set<string>();
+
+/** How often a rejected push is rebased and retried, and the first delay before retrying (doubled each time). */
+const PUSH_RETRIES = 4;
+const PUSH_BACKOFF_MS = 250;
+
+function isPushRejectedError(err: unknown): boolean {
+  const lower = (err instanceof Error ? err.message : String(err)).toLowerCase();
+  return lower.includes("non-fast-forward") || lower.includes("fetch first") || lower.includes("[rejected]");
+}
+
+/** The remote itself does not exist (as opposed to being unreachable). GitHub reports private repos without access the same way. */
+function isMissingRemoteError(err: unknown): boolean {
+  const lower = (err instanceof Error ? err.message : String(err)).toLowerCase();
+  return lower.includes("repository not found") || lower.includes("does not appear to be a git repository");
+}
+
+function isRepoNotFoundError(err: unknown): boolean {
+  const msg = err instanceof Error ? err.message : String(err);
+  const lower = msg.toLowerCase();
+  return (
+    lower.includes("repository not found") ||
+    lower.includes("could not read from remote") ||
+    lower.includes("does not appear to be a git repository") ||
+    lower.includes("remote repository is empty") ||
+    lower.includes("failed to connect")
+  );
+}
+
+/**
+ * Any git remote: clone with simple-git, commit with a host trailer, push to the configured branch.
+ * With cache, a bare mirror under ~/.agvault/cache is fetched incrementally and each operation
+ * works in a temporary worktree of it, holding the mirror's lock until close.
+ * A GitHub URL is checked to be private before the first push, whatever the backend (see assertPrivate).
+ */
+export class GitBackend extends WorkingCopyBackend implements VaultHistory {
+  readonly kind: BackendKind = "git";
+  readonly history: VaultHistory = this;
+  /** Mirror the working copy is a worktree of (set by fill when the cache is used). */
+  private mirror: string | null = null;
+  private unlock: (() => void) | null = null;
+  /** Remote commit the working copy is based on (null for a new vault that was never pushed). */
+  private base: string | null = null;
+
+  constructor(
+    protected readonly repoUrl: string,
+    protected readonly branch: string,
+    private readonly cache = false,
+    private readonly allowPublicRepo = false,
+    private readonly identity: CommitIdentities = {}
+  ) {
+    super();
+  }
+
+  /** Environment of git commands in the working copy once the commit identity is resolved (see resolveIdentity). */
+  private env: Record<string, string> | null = null;
+
+  protected get git(): SimpleGit {
+    const git = simpleGit(this.dir);
+    return this.env ? git.env(this.env) : git;
+  }
+
+  /**
+   * Sign commits (and rebased commits) with the configured author and committer. One that is not configured is
+   * left to git, unless git cannot tell who it is (no user.name / user.email): then the fallback identity is used,
+   * so a machine without a git identity can still commit.
+   */
+  private async resolveIdentity(dir: string): Promise<void> {
+    if (this.env) return;
+    const author = this.identity.author ?? (await hasGitIdent(dir, "GIT_AUTHOR_IDENT") ? undefined : fallbackIdentity());
+    const committer = this.identity.committer ?? this.identity.author ?? (await hasGitIdent(dir, "GIT_COMMITTER_IDENT") ? undefined : fallbackIdentity());
+    const env: Record<string, string> = Object.fromEntries(
+      Object.entries(process.env).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    );
+    if (author) Object.assign(env, { GIT_AUTHOR_NAME: author.name, GIT_AUTHOR_EMAIL: author.email });
+    if (committer) Object.assign(env, { GIT_COMMITTER_NAME: committer.name, GIT_COMMITTER_EMAIL: committer.email });
+    this.env = env;
+  }
+
+  /**
+   * Shallow clone (latest commit only) unless history is requested. With sparse folders, blobs are fetched
+   * only for those folders (partial clone; servers without filter support send everything instead).
+   */
+  protected async fill(dir: string, options: CloneOptions): Promise<void> {
+    if (this.cache && (await this.fillFromCache(dir, options))) return;
+    if (!(await this.hasBranch(options))) {
+      this.fresh = true;
+      await this.createEmptyVault(dir);
+      return;
+    }
+    const args = ["--branch", this.branch];
+    if (!options.history) args.push("--depth", "1");
+    if (options.sparse) args.push("--filter=blob:none", "--sparse");
+    await simpleGit().clone(toCloneUrl(this.repoUrl), dir, args);
+    if (options.sparse) await simpleGit(dir).raw(["sparse-checkout", "set", "--cone", ...options.sparse]);
+    this.base = await this.revision();
+  }
+
+  /**
+   * Whether the remote has the branch. False for a remote that exists but is empty or lacks the branch, and
+   * (with options.create) for one that does not exist yet. Any other failure (offline, no access, a mistyped URL
+   * when not creating) is thrown: reading it as an empty vault would make every file look deleted.
+   */
+  private async hasBranch(options: CloneOptions): Promise<boolean> {
+    try {
+      const refs = await simpleGit().raw(["ls-remote", "--heads", this.repoUrl, `refs/heads/${this.branch}`]);
+      return refs.trim().length > 0;
+    } catch (err) {
+      if (options.create && isMissingRemoteError(err)) return false;
+      const msg = err instanceof Error ? err.message.trim() : String(err);
+      throw new Error(
+        `Cannot read the vault at ${this.repoUrl}: ${msg}\n` +
+          (isMissingRemoteError(err)
+            ? "Check the URL in .agvault/config.json (was the repo moved?). Run 'agvault store' to create a new vault there."
+            : "Check your connection and access to the repo, then run the command again.")
+      );
+    }
+  }
+
+  /**
+   * Update the mirror (clone it on first use) and add dir as a detached worktree of the branch.
+   * Returns false, with the lock released, when the remote cannot be fetched (e.g. it does not exist yet).
+   */
+  private async fillFromCache(dir: string, options: CloneOptions): Promise<boolean> {
+    const mirror = getCachePath(this.repoUrl);
+    this.unlock = await lockCache(mirror);
+    try {
+      if (!existsSync(mirror)) await simpleGit().clone(this.repoUrl, mirror, ["--bare"]);
+      const git = simpleGit(mirror);
+      await git.fetch(["--prune", "origin", "+refs/heads/*:refs/heads/*"]);
+      await git.raw(["worktree", "prune"]);
+      await git.raw(["worktree", "add", "--detach", "--no-checkout", dir, `refs/heads/${this.branch}`]);
+    } catch {
+      await this.close();
+      return false;
+    }
+    this.mirror = mirror;
+    const worktree = simpleGit(dir);
+    await worktree.raw(options.sparse ? ["sparse-checkout", "set", "--cone", ...options.sparse] : ["sparse-checkout", "disable"]);
+    await worktree.raw(["checkout", "--detach", `refs/heads/${this.branch}`]);
+    this.base = await this.revision();
+    return true;
+  }
+
+  async close(): Promise<void> {
+    try {
+      if (this.mirror) await simpleGit(this.mirror).raw(["worktree", "remove", "--force", this.dir]);
+    } catch {
+      // the caller deletes the directory; the next run prunes the stale worktree entry
+    } finally {
+      this.mirror = null;
+      this.unlock?.();
+      this.unlock = null;
+    }
+  }
+
+  /** Create an empty vault repo in dir (git init, vault/.gitkeep, commit, remote). Used when remote doesn't exist yet. */
+  private async createEmptyVault(dir: string): Promise<void> {
+    rmSync(dir, { recursive: true, force: true });
+    mkdirSync(join(dir, "vault"), { recursive: true });
+    writeFileSync(join(dir, "vault", ".gitkeep"), "", "utf-8");
+    await simpleGit(dir).init();
+    await this.resolveIdentity(dir);
+    const git = simpleGit(dir).env(this.env!);
+    await git.add(".");
+    await git.commit(`agvault: initial vault\n\n${HOST_TRAILER}: ${hostname()}`);
+    await git.addRemote("origin", this.repoUrl);
+    await git.branch(["-M", this.branch]);
+  }
+
+  async changes(): Promise<VaultChanges> {
+    await this.git.add(".");
+    const changes: VaultChanges = { added: [], modified: [], deleted: [] };
+    for (const f of (await this.git.status()).files) {
+      if (f.index === "D") {
+        changes.deleted.push(f.path);
+      } else if (f.index === "R" && f.from) {
+        changes.deleted.push(f.from);
+        changes.added.push(f.path);
+      } else if (f.index === "A") {
+        changes.added.push(f.path);
+      } else {
+        changes.modified.push(f.path);
+      }
+    }
+    return changes;
+  }
+
+  /** Stage everything and commit, recording this machine's hostname as a trailer. */
+  async commit(message: string): Promise<boolean> {
+    const status = await this.git.status();
+    const hasChanges = status.files.length > 0 || status.not_added.length > 0 || status.deleted.length > 0;
+    if (!hasChanges) return false;
+    await this.resolveIdentity(this.dir);
+    await this.git.add(".");
+    await this.git.commit(`${message}\n\n${HOST_TRAILER}: ${hostname()}`);
+    return true;
+  }
+
+  /**
+   * Push; when another machine pushed first, rebase onto its commits and retry (with backoff).
+   * Fails without pushing when both sides changed the same vault files.
+   */
+  async push(): Promise<void> {
+    await this.assertPrivate();
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await this.git.push("origin", `HEAD:refs/heads/${this.branch}`);
+        this.base = await this.revision();
+        return;
+      } catch (err) {
+        if (isRepoNotFoundError(err)) return this.pushToNewRemote();
+        if (!isPushRejectedError(err) || !this.base || attempt >= PUSH_RETRIES) throw err;
+      }
+      await new Promise((resolve) => setTimeout(resolve, PUSH_BACKOFF_MS * 2 ** attempt * (1 + Math.random())));
+      await this.rebaseOntoRemote();
+    }
+  }
+
+  /**
+   * Refuse to push to a GitHub repo that is public or internal, unless allowPublicRepo is set. So is one whose
+   * visibility cannot be checked (gh missing or logged out, GitHub not answering) but that git can read, as it may be
+   * public; a repo git cannot find is not readable by others and push creates it private. Checked once per process.
+   */
+  private async assertPrivate(): Promise<void> {
+    const repo = parseGitHubRepoUrl(this.repoUrl);
+    if (!repo || this.allowPublicRepo || checkedRepos.has(this.repoUrl)) return;
+    const visibility = await getRepoVisibility(this.repoUrl);
+    if (visibility === "public" || visibility === "internal") {
+      throw new Error(
+        `Refusing to push: ${repo} is ${visibility} on GitHub, so anyone ${visibility === "public" ? "" : "in the enterprise "}could read the vault. ` +
+          `Make it private (gh repo edit ${repo} --visibility private), or set "allowPublicRepo": true in .agvault/config.json to push anyway.`
+      );
+    }
+    if (visibility === null && (await this.remoteExists())) {
+      throw new Error(
+        `Refusing to push: could not check that ${repo} is private (GitHub CLI missing or not logged in, or GitHub did not answer). ` +
+          `Run 'gh auth login' and try again, or set "allowPublicRepo": true in .agvault/config.json to push without the check.`
+      );
+    }
+    checkedRepos.add(this.repoUrl);
+  }
+
+  /** Whether git can read the remote; false when it reports the repo missing (or, on GitHub, not accessible). */
+  private async remoteExists(): Promise<boolean> {
+    try {
+      await simpleGit().raw(["ls-remote", "--heads", this.repoUrl]);
+      return true;
+    } catch (err) {
+      if (isMissingRemoteError(err)) return false;
+      throw err;
+    }
+  }
+
+  /** Fetch the branch and replay our commits on top of it, unless the remote changed the same vault files. */
+  private async rebaseOntoRemote(): Promise<void> {
+    await this.git.fetch(["origin", `refs/heads/${this.branch}`]);
+    const remote = (await this.git.revparse(["FETCH_HEAD"])).trim();
+    const theirs = new Set(await this.changedFiles(this.base!, remote));
+    // workspaces.json changed on both sides is merged name by name when the rebase stops on it (see continueRebase)
+    const overlap = (await this.changedFiles(this.base!, "HEAD")).filter((p) => p.startsWith("vault/") && theirs.has(p));
+    if (overlap.length > 0) {
+      throw new Error(
+        `Another machine changed the same vault files while this command ran: ${overlap.join(", ")}. Nothing was pushed. Run 'agvault sync' to merge both versions.`
+      );
+    }
+    try {
+      await this.git.rebase([remote]).catch(() => this.continueRebase());
+    } catch (err) {
+      await this.git.rebase(["--abort"]).catch(() => undefined);
+      throw err;
+    }
+    this.base = remote;
+  }
+
+  /**
+   * Finish a rebase that stopped on conflicts: where workspaces.json is the only conflicted file, merge both sides'
+   * claims (see mergeRegistry) and continue, for every replayed commit that stops. Anything else is an error.
+   */
+  private async continueRebase(): Promise<void> {
+    do {
+      const conflicted = (await this.git.raw(["diff", "--name-only", "--diff-filter=U"])).split("\n").filter(Boolean);
+      if (conflicted.length === 0 || conflicted.some((p) => p !== WORKSPACES_FILE)) {
+        throw new Error("Another machine pushed to the vault while this command ran and the changes could not be combined. Nothing was pushed. Run the command again.");
+      }
+      // Index stages of the conflicted file: 1 the common ancestor, 2 the remote (rebased onto), 3 our commit
+      const [base, remote, ours] = await Promise.all([1, 2, 3].map((stage) => this.readStage(stage, WORKSPACES_FILE)));
+      const merged = mergeRegistry(parseWorkspaceRegistry(base), parseWorkspaceRegistry(ours), parseWorkspaceRegistry(remote));
+      writeFileSync(join(this.dir, WORKSPACES_FILE), formatWorkspaceRegistry(merged), "utf-8");
+      await this.git.add(WORKSPACES_FILE);
+      // A later commit that conflicts again stops the rebase: the loop handles it
+      await this.git.raw(["-c", "core.editor=true", "rebase", "--continue"]).catch(() => undefined);
+    } while (await this.isRebasing());
+  }
+
+  /** Content of a file at an index stage during a conflict, or null when that side does not have it. */
+  private async readStage(stage: number, path: string): Promise<string | null> {
+    return this.git.raw(["show", `:${stage}:${path}`]).catch(() => null);
+  }
+
+  private async isRebasing(): Promise<boolean> {
+    for (const name of ["rebase-merge", "rebase-apply"]) {
+      const path = (await this.git.revparse(["--git-path", name])).trim();
+      if (existsSync(resolve(this.dir, path))) return true;
+    }
+    return false;
+  }
+
+  private async changedFiles(from: string, to: string): Promise<string[]> {
+    const out = await this.git.raw(["diff", "--name-only", "--no-renames", from, to]);
+    return out.split("\n").filter(Boolean);
+  }
+
+  /** Called when the remote does not exist: a local path becomes a new bare repo, anything else must be created by hand. */
+  protected async pushToNewRemote(): Promise<void> {
+    if (isLocalRepoUrl(this.repoUrl)) {
+      const path = toLocalPath(this.repoUrl);
+      if (!existsSync(path) || readdirSync(path).length === 0) {
+        mkdirSync(path, { recursive: true });
+        await simpleGit(path).init(true);
+        await this.git.push("origin", `HEAD:refs/heads/${this.branch}`);
+        return;
+      }
+    }
+    throw new Error(
+      `Remote repository not found: ${this.repoUrl}. Create an empty private repository there (or check access), then run the command again.`
+    );
+  }
+
+  async revision(): Promise<string | null> {
+    try {
+      return (await this.git.revparse(["HEAD"])).trim();
+    } catch {
+      return null; // empty or unborn vault: no commit to record
+    }
+  }
+
+  /** Looks in the working copy first; a shallow clone fetches the commit by id when it is not there. */
+  async containsCommit(commit: string): Promise<boolean> {
+    const known = () => this.git.raw(["cat-file", "-e", `${commit}^{commit}`]).then(() => true, () => false);
+    if (await known()) return true;
+    await this.git.fetch(["--depth=1", "origin", commit]).catch(() => undefined);
+    return known();
+  }
+
+  async log(pathspec: string, limit?: number): Promise<VaultLogEntry[]> {
+    const args = [
+      "log",
+      `--format=%H%x1f%aI%x1f%an%x1f%(trailers:key=${HOST_TRAILER},valueonly,separator=%x2C )%x1f%s%x1e`,
+    ];
+    if (limit) args.push(`-n${limit}`);
+    let raw: string;
+    try {
+      raw = await this.git.raw([...args, "--", pathspec]);
+    } catch {
+      return []; // empty vault: no history yet
+    }
+    return raw
+      .split("\x1e")
+      .map((record) => record.trim())
+      .filter(Boolean)
+      .map((record) => {
+        const [commit, date, author, host, message] = record.split("\x1f");
+        return { commit, date, host: host.trim() || author, message };
+      });
+  }
+
+  async resolve(at: string): Promise<string> {
+    const value = at.trim();
+    try {
+      const commit = (await this.git.revparse(["--verify", "--quiet", `${value}^{commit}`])).trim();
+      if (commit) return commit;
+    } catch {
+      // not a revision: try a date
+    }
+    if (!/^\d{4}-\d{1,2}-\d{1,2}([ T].*)?$/.test(value) || Number.isNaN(Date.parse(value))) {
+      throw new Error(`No vault commit or date "${value}". Use a SHA from 'agvault log' or a date (e.g. 2024-05-01 or "2024-05-01 14:00").`);
+    }
+    const commit = (await this.git.raw(["rev-list", "-1", `--before=${value}`, "HEAD"])).trim();
+    if (!commit) throw new Error(`The vault has no commits before ${value}.`);
+    return commit;
+  }
+
+  async listAt(commit: string, pathspec: string): Promise<string[]> {
+    const listed = await this.git.raw(["ls-tree", "-r", "--name-only", commit, "--", pathspec]);
+    return listed
+      .split("\n")
+      .map((l) => l.trim())
+      .filter(Boolean);
+  }
+
+  readAt(commit: string, path: string): Promise<Buffer> {
+    return this.git.showBuffer([`${commit}:${path}`]);
+  }
+}
+
+/**
+ * GitHub remote: uses gh for git credentials and creates the private repo on the first push when it is missing.
+ * Like any git vault on GitHub, it refuses to push to a repo that is not private (see GitBackend).
+ */
+export class GitHubBackend extends GitBackend {
+  readonly kind: BackendKind = "github";
+
+  protected async fill(dir: string, options: CloneOptions): Promise<void> {
+    // Use gh for Git credentials when available so pull/sync don't prompt for username/password
+    if (isGhAvailable()) ensureGhGitAuth();
+    await super.fill(dir, options);
+  }
+
+  protected async pushToNewRemote(): Promise<void> {
+    if (isGhAvailable() && createGitHubRepoAndPush(this.repoUrl, this.dir)) return;
+    const repo = parseGitHubRepoUrl(this.repoUrl);
+    const hint = repo
+      ? `Create the repo at https://github.com/new?name=${repo.split("/")[1]} (private), then run the command again.`
+      : "Create a private repo at https://github.com/new and use its URL in agvault init, then run the command again.";
+    throw new Error(
+      `Remote repository not found. ${isGhAvailable() ? "Run `gh auth login` and try again, or " : "Install GitHub CLI (gh) and run `gh auth login` to create the repo automatically, or "}${hint}`
+    );
+  }
+}
+
+/**
+ * Plain folder (network share, USB drive, synced folder). The working copy is a copy of the folder; push copies
+ * back only the files this command changed, and refuses when another command changed the same files in the
+ * meantime (concurrent claims in workspaces.json are merged, see mergeRegistry). There is no history.
+ */
+export class DirectoryBackend extends WorkingCopyBackend {
+  readonly kind: BackendKind = "directory";
+  readonly history = null;
+  /** Content hash of every file as of fill (or the last push): what push compares the working copy and the folder with. */
+  private filled = new Map<string, string>();
+  /** workspaces.json as of fill (or the last push), the base for merging claims made in the meantime. */
+  private filledRegistry: string | null = null;
+
+  constructor(private readonly root: string) {
+    super();
+  }
+
+  /**
+   * Always a full copy, so changes are known file by file.
+   * A missing folder is an error (an unmounted share must not read as an empty vault) unless the command creates it.
+   */
+  protected async fill(dir: string, options: CloneOptions): Promise<void> {
+    if (existsSync(this.root)) {
+      cpSync(this.root, dir, { recursive: true });
+    } else if (!options.create) {
+      throw new Error(`Vault folder not found: ${this.root}. Mount it or fix the path in .agvault/config.json; 'agvault store' creates a new vault there.`);
+    }
+    this.fresh = walkFiles(dir).length === 0;
+    mkdirSync(join(dir, "vault"), { recursive: true });
+    this.snapshot();
+  }
+
+  private snapshot(): void {
+    this.filled = new Map(walkFiles(this.dir).map((rel) => [rel, hashFile(join(this.dir, rel))!]));
+    this.filledRegistry = this.read(WORKSPACES_FILE)?.toString("utf-8") ?? null;
+  }
+
+  async changes(): Promise<VaultChanges> {
+    const working = walkFiles(this.dir);
+    const inWorking = new Set(working);
+    return {
+      added: working.filter((rel) => !this.filled.has(rel)),
+      modified: working.filter((rel) => this.filled.has(rel) && hashFile(join(this.dir, rel)) !== this.filled.get(rel)),
+      deleted: [...this.filled.keys()].filter((rel) => !inWorking.has(rel)),
+    };
+  }
+
+  /** Nothing to record: changes are whatever differs from the folder as it was copied. */
+  async commit(_message: string): Promise<boolean> {
+    const { added, modified, deleted } = await this.changes();
+    return added.length + modified.length + deleted.length > 0;
+  }
+
+  async push(): Promise<void> {
+    const { added, modified, deleted } = await this.changes();
+    const changed = [...added, ...modified, ...deleted];
+    // Files another command wrote or deleted in the folder since fill; the same change on both sides is no conflict
+    const moved = changed.filter((rel) => hashFile(join(this.root, rel)) !== (this.filled.get(rel) ?? null));
+    const conflicts = moved.filter(
+      (rel) => rel !== WORKSPACES_FILE && hashFile(join(this.root, rel)) !== hashFile(join(this.dir, rel))
+    );
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Another agvault command changed these files in ${this.root} since this one read them, nothing was pushed:\n` +
+          conflicts.map((rel) => `  ${rel}`).join("\n") +
+          `\nRun the command again.`
+      );
+    }
+    if (moved.includes(WORKSPACES_FILE)) {
+      const current = existsSync(join(this.root, WORKSPACES_FILE)) ? readFileSync(join(this.root, WORKSPACES_FILE), "utf-8") : null;
+      const merged = mergeRegistry(
+        parseWorkspaceRegistry(this.filledRegistry),
+        parseWorkspaceRegistry(this.read(WORKSPACES_FILE)?.toString("utf-8") ?? null),
+        parseWorkspaceRegistry(current)
+      );
+      this.write(WORKSPACES_FILE, Buffer.from(formatWorkspaceRegistry(merged), "utf-8"));
+    }
+
+    mkdirSync(this.root, { recursive: true });
+    for (const rel of deleted) {
+      rmSync(join(this.root, rel), { force: true });
+      // Only the folders this deletion left empty: others may be in use by another command
+      for (let parent = dirname(rel); parent !== "."; parent = dirname(parent)) {
+        const full = join(this.root, parent);
+        if (!existsSync(full) || readdirSync(full).length > 0) break;
+        rmSync(full, { recursive: true });
+      }
+    }
+    for (const rel of [...added, ...modified]) {
+      const dest = join(this.root, rel);
+      mkdirSync(dirname(dest), { recursive: true });
+      writeFileSync(dest, readFileSync(join(this.dir, rel)));
+    }
+    this.snapshot();
+  }
+
+  async revision(): Promise<string | null> {
+    return null;
+  }
+
+  /** No commits: nothing to compare with. */
+  async containsCommit(_commit: string): Promise<boolean> {
+    return false;
+  }
+}
+
+/** Content hash of a file, or null when it does not exist. */
+function hashFile(path: string): string | null {
+  return existsSync(path) ? createHash("sha256").update(readFileSync(path)).digest("hex") : null;
+}
+
@@ -0,0 +1,106 @@
+import { createHash } from "crypto";
+import { closeSync, mkdirSync, openSync, readFileSync, rmSync, statSync, writeSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+const GLOBAL_DIR = ".agvault";
+const CACHE_DIR = "cache";
+
+/** How long to wait for another agvault command to release the cache before giving up. */
+const LOCK_TIMEOUT_MS = 60_000;
+const LOCK_POLL_MS = 250;
+/** A lock whose pid is not written yet is only considered abandoned after this long. */
+const UNWRITTEN_LOCK_MS = 10_000;
+
+/** Bare mirror of a vault repo, kept when config.cache is on: ~/.agvault/cache/<hash of the repo URL>.git */
+export function getCachePath(repoUrl: string): string {
+  const hash = createHash("sha256").update(repoUrl.trim()).digest("hex").slice(0, 16);
+  return join(homedir(), GLOBAL_DIR, CACHE_DIR, `${hash}.git`);
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (err) {
+    // EPERM: the process exists but belongs to another user
+    return (err as NodeJS.ErrnoException).code === "EPERM";
+  }
+}
+
+/** A lock is abandoned when its owner is gone, or when its pid was never written and it is old. */
+function isStale(lockPath: string, owner: number): boolean {
+  try {
+    return Number.isNaN(owner) ? Date.now() - statSync(lockPath).mtimeMs > UNWRITTEN_LOCK_MS : !isProcessAlive(owner);
+  } catch {
+    return false; // released in the meantime
+  }
+}
+
+/** Owner of a lock file: its pid, NaN while the pid is not written yet, null when there is no lock. */
+function readLockOwner(lockPath: string): number | null {
+  try {
+    return Number.parseInt(readFileSync(lockPath, "utf-8"), 10);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove a lock judged abandoned, unless another command took it over in the meantime. Removals go through
+ * <path>.lock.takeover so two commands that both saw the same stale lock cannot remove each other's new lock:
+ * the second one re-reads the lock under the takeover lock and finds the first one's live pid.
+ * Returns false when another command is taking over right now.
+ */
+function removeStaleLock(lockPath: string, staleOwner: number): boolean {
+  const takeoverPath = lockPath + ".takeover";
+  try {
+    closeSync(openSync(takeoverPath, "wx"));
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    // Left behind by a command that died mid-takeover; the next attempt can take over again.
+    try {
+      if (Date.now() - statSync(takeoverPath).mtimeMs > UNWRITTEN_LOCK_MS) rmSync(takeoverPath, { force: true });
+    } catch {
+      // released in the meantime
+    }
+    return false;
+  }
+  try {
+    const owner = readLockOwner(lockPath);
+    const unchanged = owner === staleOwner || (Number.isNaN(owner) && Number.isNaN(staleOwner));
+    if (owner !== null && unchanged && isStale(lockPath, owner)) rmSync(lockPath, { force: true });
+    return true;
+  } finally {
+    rmSync(takeoverPath, { force: true });
+  }
+}
+
+/**
+ * Take the lock of a cached mirror (<path>.lock holding the owner's pid). Waits while another agvault command
+ * holds it; a lock left by a process that no longer exists is taken over. Returns the function that releases it.
+ */
+export async function lockCache(cachePath: string): Promise<() => void> {
+  const lockPath = cachePath + ".lock";
+  mkdirSync(join(cachePath, ".."), { recursive: true });
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      return () => rmSync(lockPath, { force: true });
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+    }
+    const owner = readLockOwner(lockPath);
+    if (owner === null) continue; // released in the meantime
+    if (isStale(lockPath, owner) && removeStaleLock(lockPath, owner)) continue;
+    if (Date.now() > deadline) {
+      throw new Error(
+        `The vault cache is in use by another agvault command (pid ${owner}). Try again when it finishes, or delete ${lockPath} if none is running.`
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+  }
+}
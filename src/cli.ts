@@ -1,8 +1,17 @@
 #!/usr/bin/env node
 import { program } from "commander";
 import inquirer from "inquirer";
-import { runInit } from "./init.js";
-import { isInitialized, getProjectRoot, addToExclude, ensurePathIncluded } from "./config.js";
+import { runInit, showRepoVisibility, type InitOptions } from "./init.js";
+import { isInteractive, requireInteractive } from "./interactive.js";
+import {
+  isInitialized,
+  getProjectRoot,
+  addToExclude,
+  ensurePathIncluded,
+  loadConfig,
+  getVaultNames,
+  INVALID_CONFIG,
+} from "./config.js";
 import {
   collectFiles,
   listVaultFilesForProjectRemote,
@@ -13,17 +22,160 @@ import {
   clearVault,
   purgeVault,
   removeFromVault,
+  statusVault,
+  planStore,
+  planPull,
+  planSync,
+  planRemove,
+  rekeyVault,
+  findOverlaps,
+  vaultLog,
+  restoreFromVault,
+  type VaultLogEntry,
+  type FileStatusKind,
+  type PlannedChange,
+  findModifiedShared,
+  saveTemplate,
+  applyTemplate,
+  listTemplates,
+  deleteTemplate,
+  type SyncResult,
+  type PullResult,
+  type StoreResult,
+  type LayerResult,
 } from "./vault.js";
+import { CONFLICT_COPY_SUFFIX } from "./merge.js";
+import { watchVault } from "./watch.js";
+import {
+  getEffectiveConfig,
+  getConfigValue,
+  setConfigValue,
+  unsetConfigValue,
+  addPatterns,
+  removePatterns,
+  validateConfig,
+  getVaults,
+  setVault,
+  removeVault,
+  splitCommaList,
+  type ConfigIssue,
+} from "./config-edit.js";
+import { updateGitIgnore } from "./git-ignore.js";
+import {
+  findDirectoryProfile,
+  loadGlobalConfig,
+  mapDirectory,
+  removeProfile,
+  setProfile,
+  unmapDirectory,
+  parseIdentity,
+  formatIdentity,
+  type CommitIdentity,
+} from "./global-default.js";
+import { BACKEND_KINDS, type BackendKind } from "./backend.js";
+import { installHooks, uninstallHooks, type HookChange, type PrePushAction } from "./hooks.js";
 import * as out from "./output.js";
 
 /** Project root: directory where .agvault is initialized (pull/sync copy vault/workspace here). */
 const cwd = getProjectRoot();
 
+/** Human-readable labels for `agvault status`. */
+const STATUS_LABELS: Record<FileStatusKind, string> = {
+  "in-sync": "in sync",
+  "added-locally": "added locally",
+  "modified-locally": "modified locally",
+  "deleted-locally": "deleted locally",
+  "excluded-locally": "excluded locally (store deletes it from vault)",
+  "added-in-vault": "added in vault",
+  "modified-in-vault": "modified in vault",
+  "deleted-in-vault": "deleted in vault",
+  conflict: "modified on both sides",
+};
+
+/** Print changes found by --dry-run or `agvault diff`: a summary table, then a unified diff per file. */
+function printPlan(changes: PlannedChange[]): void {
+  if (changes.length === 0) {
+    out.dim("No changes.");
+    return;
+  }
+  out.printTable(["Path", "Where", "Change"], changes.map((c) => [c.path, c.target, c.action]));
+  for (const c of changes) out.printDiff(c.diff);
+}
+
+/** Run a dry-run plan with the usual spinner, then print it. Nothing is written or pushed. */
+async function runDryRun(plan: (onPhase: (msg: string) => void) => Promise<PlannedChange[]>): Promise<void> {
+  const spinner = out.createSpinner();
+  spinner.start("Cloning vault…");
+  let changes: PlannedChange[];
+  try {
+    changes = await plan((msg) => spinner.updateText(msg));
+    spinner.succeed("Dry run: nothing was written or pushed.");
+  } catch (e) {
+    spinner.fail();
+    throw e;
+  }
+  printPlan(changes);
+}
+
+/** Refresh the vaulted-files block in the project's git ignore rules and warn about vaulted files the project repo tracks. */
+function updateProjectIgnore(opts?: { json?: boolean }): void {
+  const tracked = updateGitIgnore(cwd);
+  if (tracked.length === 0 || opts?.json) return;
+  out.warn(`${tracked.length} vaulted file(s) are tracked by this project's git repo, so ignore rules do not apply to them:`);
+  for (const p of tracked) out.warn("  " + p);
+  out.dim("Run 'git rm --cached <path>' to stop tracking them (the files stay on disk).");
+}
+
+/** Vaults a command runs on: the one named with --vault, or all of the project's vaults. */
+function selectVaults(name?: string): string[] {
+  const names = getVaultNames(cwd);
+  if (!name) return names;
+  if (!names.includes(name)) throw new Error(`No vault "${name}" in .agvault/config.json. Vaults: ${names.join(", ")}.`);
+  return [name];
+}
+
+/**
+ * Run action for each selected vault (given its name). With several vaults, each one's output starts with its name
+ * and --json results are printed once, as an object keyed by vault name; with one, action's result is printed as is.
+ */
+async function forEachVault<T>(
+  name: string | undefined,
+  action: (vault: string) => Promise<T>,
+  opts?: { json?: boolean }
+): Promise<T[]> {
+  const names = selectVaults(name);
+  const results: T[] = [];
+  for (const vault of names) {
+    if (names.length > 1 && !opts?.json) out.info(`Vault ${vault}:`);
+    results.push(await action(vault));
+  }
+  if (opts?.json) {
+    console.log(JSON.stringify(names.length > 1 ? Object.fromEntries(names.map((n, i) => [n, results[i]])) : results[0]));
+  }
+  return results;
+}
+
+/** Report what happened to shared layer files (pull, sync, store). */
+function printLayers(layers: LayerResult): void {
+  for (const p of layers.applied) out.dim("Shared: " + p);
+  for (const p of layers.removed) out.dim("Removed (no longer in a shared layer): " + p);
+  for (const p of layers.pushed) out.dim("Pushed to its layer: " + p);
+  if (layers.modified.length === 0) return;
+  out.warn(`${layers.modified.length} shared file(s) edited locally were not pushed:`);
+  for (const p of layers.modified) out.warn("  " + p);
+  out.dim("Run 'agvault store --shared' to push them to their layer.");
+}
+
+/** Commander parser for comma-separated option values (e.g. --include "docs/**,*.{md,mdc}"). */
+function splitList(value: string, previous: string[] = []): string[] {
+  return [...previous, ...splitCommaList(value)];
+}
+
 function handleCliError(e: unknown): never {
   const msg = e instanceof Error ? e.message : String(e);
-  if (msg.includes("Invalid JSON in .agvault/config.json")) {
+  if (msg.includes("Invalid JSON in .agvault/config.json") || msg.startsWith(INVALID_CONFIG)) {
     out.error(msg);
-    out.dim("Fix .agvault/config.json and try again. Do not run 'agvault init' or the config will be overwritten.");
+    out.dim("Fix .agvault/config.json ('agvault config validate' lists every problem) and try again. Do not run 'agvault init' or the config will be overwritten.");
   } else {
     out.error(msg);
   }
@@ -32,7 +184,7 @@ function handleCliError(e: unknown): never {
 
 program
   .name("agvault")
-  .description("Wallet for project-related files in a private GitHub repo (agentic workflow)")
+  .description("Wallet for project-related files in a private vault repo on GitHub, any git remote or a local folder (agentic workflow)")
   .version("0.1.0")
   .option("-q, --quiet", "Suppress success and info messages (errors only)")
   .addHelpText(
@@ -40,10 +192,30 @@ program
     `
 Examples:
   agvault init
+  agvault init --repo git@github.com:you/vault.git --include "docs/**" --yes
+  agvault init --create-repo my-vault --encrypt --yes
   agvault sync
+  agvault watch --interval 300
+  agvault hooks install --pre-push warn
+  agvault profile set work --repo git@github.com:acme/vault.git --author "Jane Doe <jane@acme.com>"
+  agvault profile map "~/work/**" work
+  agvault init --profile work --yes
+  agvault config show
+  agvault config add-include "notes/**"
+  agvault config set gitIgnore gitignore
+  agvault vault set team --repo git@github.com:acme/team-vault.git --include "docs/team/**"
+  agvault sync --vault team
+  agvault template save agent-rules
+  agvault template apply agent-rules
   agvault pull --file README.md
   agvault list
   agvault list --local
+  agvault status
+  agvault diff docs/
+  agvault log docs/notes.md
+  agvault restore docs/notes.md --at 2024-05-01
+  agvault store --dry-run
+  agvault store -m "Update agent rules"
   agvault add README.md
   agvault add
   agvault remove docs/notes.md
@@ -57,10 +229,24 @@ program.hook("preAction", () => {
 
 program
   .command("init")
-  .description("Initialize vault in current folder. Asks for repo URL and optional include/exclude patterns.")
-  .action(async () => {
+  .description(
+    "Initialize vault in current folder. Asks for repo URL and optional include/exclude patterns; with any flag below, runs without prompts."
+  )
+  .option("--repo <url>", "Vault repo URL or local folder path")
+  .option("--create-repo <name>", "Create a private GitHub repo with this name (gh) and use it as the vault")
+  .option("--include <patterns>", "Comma-separated glob patterns to include, on top of the defaults", splitList)
+  .option("--exclude <patterns>", "Comma-separated glob patterns to exclude, on top of the defaults", splitList)
+  .option("--branch <name>", "Vault branch (default: main)")
+  .option("--workspace <name>", "Workspace folder in the vault (default: derived from the git remote or folder)")
+  .option("--backend <kind>", "Storage backend: github, git or directory (default: from the repo URL)")
+  .option("--encrypt", "Generate a new encryption key and encrypt files in the vault")
+  .option("--key <key-or-path>", "Encrypt with an existing key (base64 or path to a .key file)")
+  .option("--template <name>", "Apply a template from the vault after init")
+  .option("--profile <name>", "Use a vault profile (default: the profile this folder is mapped to)")
+  .option("-y, --yes", "Accept defaults and update an existing config without asking")
+  .action(async (opts: InitOptions) => {
     try {
-      await runInit(cwd);
+      await runInit(cwd, opts);
     } catch (e) {
       handleCliError(e);
     }
@@ -84,6 +270,8 @@ program
         spinner.fail();
         throw e;
       }
+      const config = loadConfig(cwd)!;
+      await showRepoVisibility(config.repoUrl, config.allowPublicRepo);
     } catch (e) {
       handleCliError(e);
     }
@@ -91,8 +279,596 @@ program
 
 program
   .command("sync")
-  .description("Sync with vault: pull latest into project root, merge local files, push. Vault is never stored on disk.")
-  .option("--json", "Output result as JSON { pulled, stored }")
+  .description("Sync with vault: merge vault and local changes (three-way), pull into project root, push. Vault is never stored on disk.")
+  .option("--json", "Output result as JSON { pulled, stored, pruned, merged, conflicts, layers }, keyed by vault name when there are several")
+  .option("--dry-run", "Show what would be pulled, merged and pushed without writing or pushing anything")
+  .option("--prune", "Delete local files that were removed from the vault, when unchanged since the last sync (default)")
+  .option("--no-prune", "Keep local files that were removed from the vault (the next store pushes them back)")
+  .option("--allow-secrets", "Push even if the secret scan finds keys or tokens in the files")
+  .option("--shared", "Also push local edits of shared layer files back to their layer")
+  .option("--vault <name>", "Sync only this vault (default: all of the project's vaults)")
+  .option("-m, --message <text>", "Subject of the vault commit (default: the commitMessage template)")
+  .action(async (opts: { json?: boolean; dryRun?: boolean; prune?: boolean; allowSecrets?: boolean; shared?: boolean; vault?: string; message?: string }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      if (opts.dryRun) {
+        await forEachVault(opts.vault, (vaultName) => runDryRun((onPhase) => planSync(cwd, { onPhase, vaultName, prune: opts.prune })));
+        return;
+      }
+      const results = await forEachVault(
+        opts.vault,
+        async (vaultName) => {
+          const spinner = out.createSpinner();
+          spinner.start("Syncing…");
+          let result: SyncResult;
+          try {
+            result = await syncVault(cwd, {
+              onPhase: (msg) => spinner.updateText(msg),
+              vaultName,
+              prune: opts.prune,
+              allowSecrets: opts.allowSecrets,
+              shared: opts.shared,
+              message: opts.message,
+            });
+            if (opts.json) {
+              spinner.stop();
+            } else if (result.conflicts.length > 0) {
+              spinner.fail(`Synced with ${result.conflicts.length} conflict(s): pulled ${result.pulled} file(s), stored ${result.stored} file(s).`);
+            } else {
+              spinner.succeed(`Synced: pulled ${result.pulled} file(s), stored ${result.stored} file(s).`);
+            }
+          } catch (e) {
+            spinner.fail();
+            throw e;
+          }
+          if (!opts.json) {
+            for (const p of result.pruned) out.dim("Removed (deleted from vault): " + p);
+            for (const p of result.merged) out.dim("Merged: " + p);
+            printLayers(result.layers);
+            for (const c of result.conflicts) {
+              out.error(
+                c.kind === "markers"
+                  ? `Conflict: ${c.path} (resolve the conflict markers, then run 'agvault sync' again)`
+                  : `Conflict: ${c.path} (vault version saved as ${c.path}${CONFLICT_COPY_SUFFIX}; reconcile, delete the copy, then run 'agvault sync' again)`
+              );
+            }
+          }
+          return result;
+        },
+        { json: opts.json }
+      );
+      updateProjectIgnore({ json: opts.json });
+      if (results.some((r) => r.conflicts.length > 0)) process.exit(1);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+/** Parse a seconds option (e.g. --debounce 2) to milliseconds; zero only where allowed. */
+function parseSeconds(value: string, option: string, allowZero = false): number {
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0 || (!allowZero && seconds === 0)) {
+    throw new Error(`${option} must be a ${allowZero ? "non-negative" : "positive"} number of seconds.`);
+  }
+  return seconds * 1000;
+}
+
+program
+  .command("watch")
+  .description("Watch included files and sync them with the vault: push edits after a quiet period and pull periodically. Ctrl-C stops.")
+  .option("--debounce <seconds>", "Wait this long after the last change before pushing", "2")
+  .option("--interval <seconds>", "Pull changes from the vault this often (0 disables)", "60")
+  .option("--no-prune", "Keep local files that were removed from the vault")
+  .option("--allow-secrets", "Push even if the secret scan finds keys or tokens in the files")
+  .action(async (opts: { debounce: string; interval: string; prune?: boolean; allowSecrets?: boolean }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      const debounceMs = parseSeconds(opts.debounce, "--debounce");
+      const pullIntervalMs = parseSeconds(opts.interval, "--interval", true);
+      const stamp = () => new Date().toLocaleTimeString();
+      out.info(
+        `Watching ${cwd} (push ${debounceMs / 1000}s after the last change` +
+          (pullIntervalMs > 0 ? `, pull every ${pullIntervalMs / 1000}s). ` : "). ") +
+          "Press Ctrl-C to stop."
+      );
+      const watcher = watchVault(cwd, {
+        debounceMs,
+        pullIntervalMs,
+        prune: opts.prune,
+        allowSecrets: opts.allowSecrets,
+        onSyncStart: (reason) => {
+          if (reason === "change") out.step(`${stamp()} Pushing changes…`);
+        },
+        onSync: (result, _reason, vault) => {
+          updateProjectIgnore();
+          const { applied, removed } = result.layers;
+          const changed = result.pulled + result.stored + result.pruned.length + result.merged.length + result.conflicts.length;
+          if (changed + applied.length + removed.length === 0) return;
+          const label = getVaultNames(cwd).length > 1 ? ` ${vault}` : "";
+          out.success(`${stamp()} Synced${label}: pulled ${result.pulled} file(s), stored ${result.stored} file(s).`);
+          for (const p of result.pruned) out.dim("Removed (deleted from vault): " + p);
+          for (const p of result.merged) out.dim("Merged: " + p);
+          printLayers({ ...result.layers, modified: [] });
+          for (const c of result.conflicts) {
+            out.error(
+              c.kind === "markers"
+                ? `Conflict: ${c.path} (resolve the conflict markers; it is pushed on the next change)`
+                : `Conflict: ${c.path} (vault version saved as ${c.path}${CONFLICT_COPY_SUFFIX}; reconcile and delete the copy)`
+            );
+          }
+        },
+        onError: (err) => out.error(`${stamp()} ${err instanceof Error ? err.message : String(err)}`),
+      });
+      process.once("SIGINT", () => {
+        out.dim("Stopping (waiting for a sync in progress)…");
+        process.once("SIGINT", () => process.exit(130));
+        void watcher.stop().then(() => {
+          out.success("Stopped watching.");
+          process.exit(0);
+        });
+      });
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+/** Human-readable labels for `agvault hooks install|uninstall`. */
+const HOOK_LABELS: Record<HookChange["action"], string> = {
+  installed: "installed",
+  chained: "installed (your existing hook runs first)",
+  updated: "updated",
+  removed: "removed",
+  restored: "removed (your original hook is back)",
+};
+
+const hooks = program
+  .command("hooks")
+  .description("Install or remove git hooks in the project repo: sync after checkout and merge, store (or warn) before push.");
+
+hooks
+  .command("install")
+  .description("Write post-checkout, post-merge and pre-push hooks. Existing hooks are kept and run first.")
+  .option("--pre-push <action>", "What the pre-push hook does: store (push project files to the vault) or warn (only report unsynced files)", "store")
+  .action((opts: { prePush: string }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      if (opts.prePush !== "store" && opts.prePush !== "warn") throw new Error("--pre-push must be store or warn.");
+      const changes = installHooks(cwd, opts.prePush as PrePushAction);
+      for (const c of changes) out.dim(`${c.name}: ${HOOK_LABELS[c.action]}`);
+      out.success("Git hooks installed. The agvault command must be on PATH when git runs them.");
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+hooks
+  .command("uninstall")
+  .description("Remove agvault's git hooks and restore the hooks they chained.")
+  .action(() => {
+    try {
+      const changes = uninstallHooks(cwd);
+      if (changes.length === 0) {
+        out.dim("No agvault hooks installed.");
+        return;
+      }
+      for (const c of changes) out.dim(`${c.name}: ${HOOK_LABELS[c.action]}`);
+      out.success("Git hooks removed.");
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+/** Print `agvault config validate` findings, prefixed with the key they are about. */
+function printConfigIssues(issues: ConfigIssue[]): void {
+  for (const issue of issues) {
+    const msg = issue.key ? `${issue.key}: ${issue.message}` : issue.message;
+    if (issue.level === "error") out.error(msg);
+    else out.warn(msg);
+  }
+}
+
+/** After `agvault config` changed the file, report problems the change introduced or left in place. */
+async function warnConfigIssues(): Promise<void> {
+  const issues = await validateConfig(cwd);
+  if (issues.length === 0) return;
+  printConfigIssues(issues);
+  out.dim("Run 'agvault config validate' to check again.");
+}
+
+function isIdentity(value: unknown): value is CommitIdentity {
+  return typeof value === "object" && value !== null && typeof (value as CommitIdentity).name === "string" && typeof (value as CommitIdentity).email === "string";
+}
+
+function formatConfigValue(value: unknown): string {
+  if (value === null || value === undefined) return "(not set)";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(", ") : "(none)";
+  if (isIdentity(value)) return formatIdentity(value);
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+const configCommand = program
+  .command("config")
+  .description("Read and change .agvault/config.json with checked values, show the effective config, validate it.");
+
+configCommand
+  .command("show")
+  .description("Show every setting with the value in effect and where it comes from (project, profile, global or default).")
+  .option("--json", "Output as JSON ({ key: { value, source } })")
+  .action((opts: { json?: boolean }) => {
+    try {
+      const settings = getEffectiveConfig(cwd);
+      if (opts.json) {
+        console.log(JSON.stringify(Object.fromEntries(settings.map((s) => [s.key, { value: s.value, source: s.source }]))));
+        return;
+      }
+      out.printTable(["Key", "Value", "Source"], settings.map((s) => [s.key, formatConfigValue(s.value), s.source]));
+      if (settings.find((s) => s.key === "repoUrl")?.source !== "project") {
+        out.dim("Not initialized: run 'agvault init' to create .agvault/config.json.");
+      }
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+configCommand
+  .command("get <key>")
+  .description("Print the value in effect for a key (lists one entry per line).")
+  .option("--json", "Output as JSON ({ key, value, source })")
+  .action((key: string, opts: { json?: boolean }) => {
+    try {
+      const setting = getConfigValue(cwd, key);
+      if (opts.json) console.log(JSON.stringify(setting));
+      else if (Array.isArray(setting.value)) for (const v of setting.value) console.log(v);
+      else if (setting.value !== null) console.log(formatConfigValue(setting.value));
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+configCommand
+  .command("set <key> <value>")
+  .description('Set a key in .agvault/config.json. Lists (include, exclude, layers, allowSecrets) are comma-separated; author and committer are "Name <email>".')
+  .action(async (key: string, value: string) => {
+    try {
+      const saved = setConfigValue(cwd, key, value);
+      out.success(`Set ${key} = ${formatConfigValue(saved)}`);
+      if (key === "workspace" || key === "repoUrl" || key === "backend" || key === "branch") {
+        out.dim("Files already stored stay where they were; run 'agvault store' to push this project to the new location.");
+      }
+      await warnConfigIssues();
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+configCommand
+  .command("unset <key>")
+  .description("Remove a key from .agvault/config.json so its default applies.")
+  .action(async (key: string) => {
+    try {
+      if (unsetConfigValue(cwd, key)) out.success(`Unset ${key} (now ${formatConfigValue(getConfigValue(cwd, key).value)}).`);
+      else out.dim(`${key} is not set in .agvault/config.json.`);
+      await warnConfigIssues();
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+for (const list of ["include", "exclude"] as const) {
+  configCommand
+    .command(`add-${list} <patterns...>`)
+    .description(`Add glob patterns to ${list} (checked before saving).`)
+    .action(async (patterns: string[]) => {
+      try {
+        const added = addPatterns(cwd, list, patterns);
+        if (added.length === 0) out.dim(`Already in ${list}: ${patterns.join(", ")}`);
+        else out.success(`Added to ${list}: ${added.join(", ")}`);
+        await warnConfigIssues();
+      } catch (e) {
+        handleCliError(e);
+      }
+    });
+
+  configCommand
+    .command(`remove-${list} <patterns...>`)
+    .description(`Remove glob patterns from ${list}.`)
+    .action(async (patterns: string[]) => {
+      try {
+        removePatterns(cwd, list, patterns);
+        out.success(`Removed from ${list}: ${patterns.join(", ")}`);
+        await warnConfigIssues();
+      } catch (e) {
+        handleCliError(e);
+      }
+    });
+}
+
+configCommand
+  .command("validate")
+  .description("Check .agvault/config.json: JSON syntax, unknown keys, value types, glob syntax and contradictory include/exclude rules.")
+  .option("--json", "Output as JSON (array of { level, key, message })")
+  .action(async (opts: { json?: boolean }) => {
+    try {
+      const issues = await validateConfig(cwd);
+      const errors = issues.filter((i) => i.level === "error").length;
+      if (opts.json) console.log(JSON.stringify(issues));
+      else if (issues.length === 0) out.success("Config is valid.");
+      else {
+        printConfigIssues(issues);
+        out.dim(`${errors} error(s), ${issues.length - errors} warning(s).`);
+      }
+      if (errors > 0) process.exit(1);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+const profile = program
+  .command("profile")
+  .description("Named vaults in ~/.agvault/default.json (e.g. personal, work) and the folders mapped to them; used by init.");
+
+profile
+  .command("set <name>")
+  .description("Create a profile, or change the given fields of an existing one.")
+  .option("--repo <url>", "Vault repo URL or local folder path")
+  .option("--backend <kind>", "Storage backend: github, git or directory (default: from the repo URL)")
+  .option("--branch <name>", "Vault branch for new projects (default: main)")
+  .option("--include <patterns>", "Comma-separated include patterns for new projects (default: the built-in list)", splitList)
+  .option("--exclude <patterns>", "Comma-separated exclude patterns for new projects (default: the built-in list)", splitList)
+  .option("--author <identity>", 'Author of vault commits, "Name <email>"')
+  .action((name: string, opts: { repo?: string; backend?: string; branch?: string; include?: string[]; exclude?: string[]; author?: string }) => {
+    try {
+      if (opts.backend && !BACKEND_KINDS.includes(opts.backend as BackendKind)) {
+        throw new Error(`Unknown backend "${opts.backend}". Use one of: ${BACKEND_KINDS.join(", ")}.`);
+      }
+      const saved = setProfile(name, {
+        repoUrl: opts.repo?.trim(),
+        backend: opts.backend as BackendKind | undefined,
+        branch: opts.branch,
+        include: opts.include,
+        exclude: opts.exclude,
+        author: opts.author ? parseIdentity(opts.author) : undefined,
+      });
+      out.success(`Saved profile ${name}: ${saved.repoUrl}`);
+      out.dim(`Map folders to it with 'agvault profile map <folder> ${name}', or run 'agvault init --profile ${name}'.`);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+profile
+  .command("list")
+  .description("List profiles and the folders mapped to them.")
+  .option("--json", "Output as JSON ({ profiles, directories })")
+  .action((opts: { json?: boolean }) => {
+    try {
+      const global = loadGlobalConfig();
+      const profiles = global.profiles ?? {};
+      const directories = global.directories ?? {};
+      if (opts.json) {
+        console.log(JSON.stringify({ profiles, directories }));
+        return;
+      }
+      if (Object.keys(profiles).length === 0) {
+        out.dim("No profiles. Create one with 'agvault profile set <name> --repo <url>'.");
+        return;
+      }
+      out.printTable(
+        ["Profile", "Vault", "Author", "Folders"],
+        Object.entries(profiles).map(([name, p]) => [
+          name,
+          p.repoUrl + (p.branch ? ` (${p.branch})` : ""),
+          p.author ? formatIdentity(p.author) : "",
+          Object.entries(directories)
+            .filter(([, n]) => n === name)
+            .map(([pattern]) => pattern)
+            .join(", "),
+        ])
+      );
+      const mapped = findDirectoryProfile(cwd);
+      if (mapped) out.dim(`This folder uses profile ${mapped.profile} (${mapped.pattern}).`);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+profile
+  .command("remove <name>")
+  .description("Delete a profile and its folder mappings. Projects set up with it keep their vault.")
+  .action((name: string) => {
+    try {
+      const unmapped = removeProfile(name);
+      out.success(`Removed profile ${name}.`);
+      for (const pattern of unmapped) out.dim("Unmapped: " + pattern);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+profile
+  .command("map <folder> <name>")
+  .description('Use profile <name> for projects in <folder>: a path (covers every folder below it) or a pattern such as "~/work/**".')
+  .action((folder: string, name: string) => {
+    try {
+      const pattern = mapDirectory(folder, name);
+      out.success(`Mapped ${pattern} to profile ${name}.`);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+profile
+  .command("unmap <folder>")
+  .description("Remove a folder mapping.")
+  .action((folder: string) => {
+    try {
+      if (unmapDirectory(folder)) out.success(`Unmapped ${folder}.`);
+      else out.dim(`${folder} is not mapped. See 'agvault profile list'.`);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+const vaultCommand = program
+  .command("vault")
+  .description("More vaults for this project (e.g. a team vault next to your own), each storing the files matched by its own patterns.");
+
+vaultCommand
+  .command("set <name>")
+  .description("Add a vault to this project, or change the given fields of one. The top-level settings are the vault named default.")
+  .option("--repo <url>", "Vault repo URL or local folder path")
+  .option("--include <patterns>", "Comma-separated include patterns: the files this vault stores", splitList)
+  .option("--exclude <patterns>", "Comma-separated exclude patterns (default: the built-in list)", splitList)
+  .option("--backend <kind>", "Storage backend: github, git or directory (default: from the repo URL)")
+  .option("--branch <name>", "Vault branch (default: main)")
+  .option("--workspace <name>", "Folder under vault/ for this project (default: the project's workspace)")
+  .action(
+    async (
+      name: string,
+      opts: { repo?: string; include?: string[]; exclude?: string[]; backend?: string; branch?: string; workspace?: string }
+    ) => {
+      try {
+        if (!isInitialized(cwd)) {
+          out.error("Not initialized. Run 'agvault init' first.");
+          process.exit(1);
+        }
+        if (opts.backend && !BACKEND_KINDS.includes(opts.backend as BackendKind)) {
+          throw new Error(`Unknown backend "${opts.backend}". Use one of: ${BACKEND_KINDS.join(", ")}.`);
+        }
+        const saved = setVault(cwd, name, {
+          repoUrl: opts.repo?.trim(),
+          include: opts.include,
+          exclude: opts.exclude,
+          backend: opts.backend as BackendKind | undefined,
+          branch: opts.branch,
+          workspace: opts.workspace,
+        });
+        out.success(`Saved vault ${name}: ${saved.repoUrl}`);
+        const overlaps = await findOverlaps(cwd);
+        if (overlaps.length > 0) {
+          out.warn(`${overlaps.length} file(s) match the patterns of more than one vault; store and sync refuse until each is in one vault:`);
+          for (const o of overlaps) out.warn(`  ${o.path} (${o.vaults.join(", ")})`);
+          out.dim("Exclude them from the default vault with 'agvault config add-exclude <pattern>', or from this one with --exclude.");
+        }
+      } catch (e) {
+        handleCliError(e);
+      }
+    }
+  );
+
+vaultCommand
+  .command("list")
+  .description("List this project's vaults and the files each one stores.")
+  .option("--json", "Output as JSON (object of vault name → { repoUrl, include, exclude, ... })")
+  .action((opts: { json?: boolean }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      const vaults = getVaultNames(cwd).map((name) => {
+        const { vaults: _others, ...config } = loadConfig(cwd, name)!;
+        return { name, config };
+      });
+      if (opts.json) {
+        console.log(JSON.stringify(Object.fromEntries(vaults.map(({ name, config }) => [name, config]))));
+        return;
+      }
+      out.printTable(
+        ["Vault", "Repo", "Include", "Workspace"],
+        vaults.map(({ name, config }) => [
+          name,
+          config.repoUrl + (config.branch && config.branch !== "main" ? ` (${config.branch})` : ""),
+          config.include.join(", "),
+          config.workspace ?? "",
+        ])
+      );
+      if (vaults.length === 1) out.dim("Add another vault with 'agvault vault set <name> --repo <url> --include <patterns>'.");
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+vaultCommand
+  .command("remove <name>")
+  .description("Remove a vault from this project. Its files stay in the project and in the vault.")
+  .action((name: string) => {
+    try {
+      removeVault(cwd, name);
+      out.success(`Removed vault ${name}.`);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+const template = program
+  .command("template")
+  .description("Project templates in the vault (vault/_templates): save this project's files, apply them to a new project, list, delete.");
+
+template
+  .command("save <name>")
+  .description("Save this project's vaulted files as a template (replaces a template with the same name).")
+  .option("--allow-secrets", "Push even if the secret scan finds keys or tokens in the files")
+  .action(async (name: string, opts: { allowSecrets?: boolean }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      const spinner = out.createSpinner();
+      spinner.start("Cloning vault…");
+      try {
+        const n = await saveTemplate(cwd, name, { onPhase: (msg) => spinner.updateText(msg), allowSecrets: opts.allowSecrets });
+        spinner.succeed(`Saved ${n} file(s) as template ${name}.`);
+      } catch (e) {
+        spinner.fail();
+        throw e;
+      }
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+template
+  .command("apply <name>")
+  .description("Write a template's files into this project. Existing files are kept unless --force. Run store afterwards to push them.")
+  .option("--force", "Overwrite project files that already exist")
+  .action(async (name: string, opts: { force?: boolean }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      const spinner = out.createSpinner();
+      spinner.start("Cloning vault…");
+      let result: Awaited<ReturnType<typeof applyTemplate>>;
+      try {
+        result = await applyTemplate(cwd, name, { onPhase: (msg) => spinner.updateText(msg), force: opts.force });
+        spinner.succeed(`Applied template ${name}: ${result.written.length} file(s).`);
+      } catch (e) {
+        spinner.fail();
+        throw e;
+      }
+      for (const p of result.skipped) out.dim("Kept existing (use --force to overwrite): " + p);
+      out.dim("Run 'agvault store' to push them to this project's workspace.");
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+template
+  .command("list")
+  .description("List the templates saved in the vault.")
+  .option("--json", "Output as JSON (array of { name, files })")
   .action(async (opts: { json?: boolean }) => {
     try {
       if (!isInitialized(cwd)) {
@@ -100,16 +876,41 @@ program
         process.exit(1);
       }
       const spinner = out.createSpinner();
-      spinner.start("Syncing…");
-      let result: { pulled: number; stored: number };
+      spinner.start("Cloning vault…");
+      let templates: Awaited<ReturnType<typeof listTemplates>>;
       try {
-        result = await syncVault(cwd, { onPhase: (msg) => spinner.updateText(msg) });
+        templates = await listTemplates(cwd, { onPhase: (msg) => spinner.updateText(msg) });
         if (opts.json) {
           spinner.stop();
-          console.log(JSON.stringify(result));
-        } else {
-          spinner.succeed(`Synced: pulled ${result.pulled} file(s), stored ${result.stored} file(s).`);
+          console.log(JSON.stringify(templates));
+          return;
         }
+        spinner.succeed("Listed templates.");
+      } catch (e) {
+        spinner.fail();
+        throw e;
+      }
+      if (templates.length === 0) out.dim("No templates. Save one with 'agvault template save <name>'.");
+      else out.printTable(["Template", "Files"], templates.map((t) => [t.name, String(t.files)]));
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+template
+  .command("delete <name>")
+  .description("Delete a template from the vault.")
+  .action(async (name: string) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      const spinner = out.createSpinner();
+      spinner.start("Cloning vault…");
+      try {
+        await deleteTemplate(cwd, name, { onPhase: (msg) => spinner.updateText(msg) });
+        spinner.succeed(`Deleted template ${name}.`);
       } catch (e) {
         spinner.fail();
         throw e;
@@ -124,10 +925,17 @@ program
   .description("Pull from vault into project root (clone to temp, copy files, delete temp). Use --file to pull specific files only.")
   .option("-f, --file <paths...>", "Pull only these files (paths relative to vault)")
   .option("--init-if-missing", "Run init interactively if not initialized", true)
-  .action(async (opts: { file?: string[]; initIfMissing?: boolean }) => {
+  .option("--dry-run", "Show which project files would be created, overwritten or deleted without writing them")
+  .option("--prune", "Delete local files that were removed from the vault, when unchanged since the last sync (default)")
+  .option("--no-prune", "Keep local files that were removed from the vault")
+  .option("--vault <name>", "Pull only from this vault (default: all of the project's vaults)")
+  .action(async (opts: { file?: string[]; initIfMissing?: boolean; dryRun?: boolean; prune?: boolean; vault?: string }) => {
     try {
       if (!isInitialized(cwd)) {
-        if (opts.initIfMissing !== false) {
+        if (opts.initIfMissing !== false && !isInteractive()) {
+          out.error("Not initialized. Run 'agvault init --repo <url> --yes' first (no terminal to run init interactively).");
+          process.exit(1);
+        } else if (opts.initIfMissing !== false) {
           out.dim("Not initialized. Running init...");
           await runInit(cwd);
           if (!isInitialized(cwd)) {
@@ -139,16 +947,30 @@ program
           process.exit(1);
         }
       }
-      const spinner = out.createSpinner();
-      spinner.start("Cloning vault…");
-      let n: number;
-      try {
-        n = await pullFromVault(cwd, opts.file, { onPhase: (msg) => spinner.updateText(msg) });
-        spinner.succeed("Pulled " + n + " file(s) from vault.");
-      } catch (e) {
-        spinner.fail();
-        throw e;
+      if (opts.dryRun) {
+        await forEachVault(opts.vault, (vaultName) =>
+          runDryRun((onPhase) => planPull(cwd, opts.file, { onPhase, vaultName, prune: opts.prune }))
+        );
+        return;
       }
+      await forEachVault(opts.vault, async (vaultName) => {
+        const spinner = out.createSpinner();
+        spinner.start("Cloning vault…");
+        let result: PullResult;
+        try {
+          result = await pullFromVault(cwd, opts.file, { onPhase: (msg) => spinner.updateText(msg), vaultName, prune: opts.prune });
+          spinner.succeed(
+            "Pulled " + result.pulled + " file(s) from vault." +
+              (result.pruned.length > 0 ? ` Removed ${result.pruned.length} file(s) deleted from the vault.` : "")
+          );
+        } catch (e) {
+          spinner.fail();
+          throw e;
+        }
+        for (const p of result.pruned) out.dim("Removed: " + p);
+        printLayers(result.layers);
+      });
+      updateProjectIgnore();
     } catch (e) {
       handleCliError(e);
     }
@@ -157,6 +979,49 @@ program
 program
   .command("store")
   .description("Store configured files in the vault (clone to temp, copy, push, delete temp). Vault is never stored on disk.")
+  .option("--dry-run", "Show which vault files would be created, overwritten or deleted without committing or pushing")
+  .option("--allow-secrets", "Push even if the secret scan finds keys or tokens in the files")
+  .option("--shared", "Also push local edits of shared layer files back to their layer")
+  .option("--vault <name>", "Store only the files of this vault (default: all of the project's vaults)")
+  .option("-m, --message <text>", "Subject of the vault commit (default: the commitMessage template)")
+  .action(async (opts: { dryRun?: boolean; allowSecrets?: boolean; shared?: boolean; vault?: string; message?: string }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      if (opts.dryRun) {
+        await forEachVault(opts.vault, (vaultName) => runDryRun((onPhase) => planStore(cwd, { onPhase, vaultName })));
+        return;
+      }
+      await forEachVault(opts.vault, async (vaultName) => {
+        const spinner = out.createSpinner();
+        spinner.start("Cloning vault…");
+        let result: StoreResult;
+        try {
+          result = await storeToVault(cwd, {
+            onPhase: (msg) => spinner.updateText(msg),
+            vaultName,
+            allowSecrets: opts.allowSecrets,
+            shared: opts.shared,
+            message: opts.message,
+          });
+          spinner.succeed("Stored " + result.stored + " file(s) in vault.");
+        } catch (e) {
+          spinner.fail();
+          throw e;
+        }
+        printLayers({ applied: [], removed: [], modified: findModifiedShared(cwd, vaultName), pushed: result.shared });
+      });
+      updateProjectIgnore();
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+program
+  .command("rekey")
+  .description("Generate a new encryption key, re-encrypt this project's vault files with it and push. Enables encryption if it was off.")
   .action(async () => {
     try {
       if (!isInitialized(cwd)) {
@@ -165,14 +1030,15 @@ program
       }
       const spinner = out.createSpinner();
       spinner.start("Cloning vault…");
-      let n: number;
+      let result: Awaited<ReturnType<typeof rekeyVault>>;
       try {
-        n = await storeToVault(cwd, { onPhase: (msg) => spinner.updateText(msg) });
-        spinner.succeed("Stored " + n + " file(s) in vault.");
+        result = await rekeyVault(cwd, { onPhase: (msg) => spinner.updateText(msg) });
+        spinner.succeed(`Re-encrypted ${result.files} file(s) with key ${result.keyId}.`);
       } catch (e) {
         spinner.fail();
         throw e;
       }
+      out.dim("New key saved to " + result.keyPath + ". Copy it to your other machines before they pull.");
     } catch (e) {
       handleCliError(e);
     }
@@ -180,23 +1046,27 @@ program
 
 program
   .command("clean")
-  .description("Remove legacy .agvault/repo if present. Use --purge to delete all projects from the vault (remote). Prompts for confirmation.")
+  .description("Remove legacy .agvault/repo if present. Use --purge to delete all projects from the vault (remote). Prompts for confirmation unless --yes.")
   .option("--purge", "Delete all projects from the vault (remote); commits and pushes")
-  .action(async (opts: { purge?: boolean }) => {
+  .option("-y, --yes", "Do not ask for confirmation")
+  .action(async (opts: { purge?: boolean; yes?: boolean }) => {
     try {
       if (!isInitialized(cwd)) {
         out.error("Not initialized. Run 'agvault init' first.");
         process.exit(1);
       }
+      if (!opts.yes) requireInteractive("Pass --yes to confirm.");
       if (opts.purge) {
-        const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
-          {
-            type: "confirm",
-            name: "confirm",
-            message: "This will delete ALL projects from the vault (remote). This cannot be undone. Continue?",
-            default: false,
-          },
-        ]);
+        const { confirm } = opts.yes
+          ? { confirm: true }
+          : await inquirer.prompt<{ confirm: boolean }>([
+              {
+                type: "confirm",
+                name: "confirm",
+                message: "This will delete ALL projects from the vault (remote). This cannot be undone. Continue?",
+                default: false,
+              },
+            ]);
         if (!confirm) {
           out.dim("Cancelled.");
           return;
@@ -212,14 +1082,16 @@ program
         }
         return;
       }
-      const { confirm } = await inquirer.prompt<{ confirm: boolean }>([
-        {
-          type: "confirm",
-          name: "confirm",
-          message: "Remove legacy .agvault/repo if present? (Vault is normally temp-only; nothing to clear.)",
-          default: false,
-        },
-      ]);
+      const { confirm } = opts.yes
+        ? { confirm: true }
+        : await inquirer.prompt<{ confirm: boolean }>([
+            {
+              type: "confirm",
+              name: "confirm",
+              message: "Remove legacy .agvault/repo if present? (Vault is normally temp-only; nothing to clear.)",
+              default: false,
+            },
+          ]);
       if (!confirm) {
         out.dim("Cancelled.");
         return;
@@ -235,45 +1107,199 @@ program
   .command("list")
   .description("List files stored in the vault for this project only, or list files that would be collected (--local).")
   .option("-l, --local", "List files that would be collected from current project (include patterns)")
-  .option("--json", "Output as JSON (array of paths)")
-  .action(async (opts: { local?: boolean; json?: boolean }) => {
+  .option("--json", "Output as JSON (array of paths, keyed by vault name when there are several)")
+  .option("--vault <name>", "List only this vault (default: all of the project's vaults)")
+  .action(async (opts: { local?: boolean; json?: boolean; vault?: string }) => {
     try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
       if (opts.local) {
-        if (!isInitialized(cwd)) {
-          out.error("Not initialized. Run 'agvault init' first.");
-          process.exit(1);
-        }
-        const files = await collectFiles(cwd);
-        const paths = files.map((f) => f.relativePath);
-        if (opts.json) {
-          console.log(JSON.stringify(paths));
-          return;
+        await forEachVault(
+          opts.vault,
+          async (vaultName) => {
+            const paths = (await collectFiles(cwd, vaultName)).map((f) => f.relativePath);
+            if (opts.json) return paths;
+            if (paths.length === 0) out.dim("No files match include patterns.");
+            else out.printTable(["Path"], paths.map((p) => [p]));
+            return paths;
+          },
+          { json: opts.json }
+        );
+        return;
+      }
+      await forEachVault(
+        opts.vault,
+        async (vaultName) => {
+          const spinner = out.createSpinner();
+          spinner.start("Listing vault…");
+          let names: string[];
+          try {
+            names = await listVaultFilesForProjectRemote(cwd, { onPhase: (msg) => spinner.updateText(msg), vaultName });
+            if (opts.json) {
+              spinner.stop();
+              return names;
+            }
+            spinner.succeed("Listed vault.");
+          } catch (e) {
+            spinner.fail();
+            throw e;
+          }
+          if (names.length === 0) out.dim("No files in vault for this project.");
+          else out.printTable(["Path"], names.map((n) => [n]));
+          return names;
+        },
+        { json: opts.json }
+      );
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+program
+  .command("status")
+  .description("Compare project files with the vault for this project: added, modified or deleted on either side, or in sync.")
+  .option("--json", "Output as JSON (array of { path, status }, keyed by vault name when there are several)")
+  .option("--vault <name>", "Compare only with this vault (default: all of the project's vaults)")
+  .action(async (opts: { json?: boolean; vault?: string }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      await forEachVault(
+        opts.vault,
+        async (vaultName) => {
+          const spinner = out.createSpinner();
+          spinner.start("Comparing with vault…");
+          let statuses: Awaited<ReturnType<typeof statusVault>>;
+          try {
+            statuses = await statusVault(cwd, { onPhase: (msg) => spinner.updateText(msg), vaultName });
+            if (opts.json) {
+              spinner.stop();
+              return statuses;
+            }
+            spinner.succeed("Compared with vault.");
+          } catch (e) {
+            spinner.fail();
+            throw e;
+          }
+          if (statuses.length === 0) {
+            out.dim("No files in the project or the vault for this project.");
+            return statuses;
+          }
+          out.printTable(["Path", "Status"], statuses.map((s) => [s.path, STATUS_LABELS[s.status]]));
+          const changed = statuses.filter((s) => s.status !== "in-sync").length;
+          if (changed === 0) out.dim("Everything in sync.");
+          else out.dim(`${changed} of ${statuses.length} file(s) differ.`);
+          return statuses;
+        },
+        { json: opts.json }
+      );
+      if (!opts.json) {
+        const overlaps = await findOverlaps(cwd);
+        if (overlaps.length > 0) {
+          out.warn(`${overlaps.length} file(s) match the patterns of more than one vault; store and sync refuse until each is in one vault:`);
+          for (const o of overlaps) out.warn(`  ${o.path} (${o.vaults.join(", ")})`);
         }
-        if (paths.length === 0) out.dim("No files match include patterns.");
-        else out.printTable(["Path"], paths.map((p) => [p]));
+      }
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+program
+  .command("diff [path]")
+  .description("Show a unified diff between the vault and project files (what store would push). Optionally limit to a file or folder.")
+  .action(async (pathArg: string | undefined) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      const filter = pathArg?.trim().replace(/\\/g, "/").replace(/\/+$/, "");
+      const spinner = out.createSpinner();
+      spinner.start("Comparing with vault…");
+      let changes: PlannedChange[];
+      try {
+        changes = await planStore(cwd, { onPhase: (msg) => spinner.updateText(msg) });
+        spinner.stop();
+      } catch (e) {
+        spinner.fail();
+        throw e;
+      }
+      if (filter) changes = changes.filter((c) => c.path === filter || c.path.startsWith(filter + "/"));
+      if (changes.length === 0) {
+        out.dim("No differences.");
         return;
       }
+      for (const c of changes) out.printDiff(c.diff);
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+program
+  .command("log [path]")
+  .description("Show vault history for this project, or for one file or folder: commit, date, host and message.")
+  .option("-n, --limit <count>", "Show at most this many commits", "20")
+  .option("--json", "Output as JSON (array of { commit, date, host, message })")
+  .action(async (pathArg: string | undefined, opts: { limit: string; json?: boolean }) => {
+    try {
       if (!isInitialized(cwd)) {
         out.error("Not initialized. Run 'agvault init' first.");
         process.exit(1);
       }
+      const limit = Number.parseInt(opts.limit, 10);
+      if (!Number.isInteger(limit) || limit < 1) throw new Error("--limit must be a positive number.");
       const spinner = out.createSpinner();
-      spinner.start("Listing vault…");
-      let names: string[];
+      spinner.start("Reading vault history…");
+      let entries: VaultLogEntry[];
       try {
-        names = await listVaultFilesForProjectRemote(cwd, { onPhase: (msg) => spinner.updateText(msg) });
+        entries = await vaultLog(cwd, pathArg?.trim(), { limit, onPhase: (msg) => spinner.updateText(msg) });
         if (opts.json) {
           spinner.stop();
-          console.log(JSON.stringify(names));
+          console.log(JSON.stringify(entries));
           return;
         }
-        spinner.succeed("Listed vault.");
+        spinner.stop();
+      } catch (e) {
+        spinner.fail();
+        throw e;
+      }
+      if (entries.length === 0) {
+        out.dim(pathArg ? "No vault history for " + pathArg + "." : "No vault history for this project.");
+        return;
+      }
+      out.printTable(
+        ["Commit", "Date", "Host", "Message"],
+        entries.map((e) => [e.commit.slice(0, 7), e.date.replace("T", " ").slice(0, 19), e.host, e.message])
+      );
+    } catch (e) {
+      handleCliError(e);
+    }
+  });
+
+program
+  .command("restore <path>")
+  .description("Write an older version of a file or folder from the vault into the project. Run store or sync afterwards to push it.")
+  .requiredOption("--at <sha|date>", "Vault commit SHA, or a date (uses the last commit before it)")
+  .action(async (pathArg: string, opts: { at: string }) => {
+    try {
+      if (!isInitialized(cwd)) {
+        out.error("Not initialized. Run 'agvault init' first.");
+        process.exit(1);
+      }
+      const spinner = out.createSpinner();
+      spinner.start("Cloning vault…");
+      try {
+        const result = await restoreFromVault(cwd, pathArg.trim(), opts.at, { onPhase: (msg) => spinner.updateText(msg) });
+        spinner.succeed(`Restored ${result.files.length} file(s) from vault commit ${result.commit.slice(0, 7)}.`);
       } catch (e) {
         spinner.fail();
         throw e;
       }
-      if (names.length === 0) out.dim("No files in vault for this project.");
-      else out.printTable(["Path"], names.map((n) => [n]));
     } catch (e) {
       handleCliError(e);
     }
@@ -282,7 +1308,9 @@ program
 program
   .command("remove [path]")
   .description("Remove a file from the vault and add it to exclude. Without path, show a list to choose from.")
-  .action(async (pathArg: string | undefined) => {
+  .option("--dry-run", "Show what would be deleted from the vault without changing config, committing or pushing")
+  .option("-m, --message <text>", "Subject of the vault commit (default: the commitMessage template)")
+  .action(async (pathArg: string | undefined, opts: { dryRun?: boolean; message?: string }) => {
     try {
       if (!isInitialized(cwd)) {
         out.error("Not initialized. Run 'agvault init' first.");
@@ -292,6 +1320,7 @@ program
       if (pathArg?.trim()) {
         paths = [pathArg.trim().replace(/\\/g, "/")];
       } else {
+        requireInteractive("Pass the path to remove, e.g. 'agvault remove docs/notes.md' (see 'agvault list').");
         const spinner = out.createSpinner();
         spinner.start("Listing vault…");
         let inVault: string[];
@@ -316,16 +1345,22 @@ program
         ]);
         paths = [selected];
       }
+      if (opts.dryRun) {
+        await runDryRun((onPhase) => planRemove(cwd, paths, { onPhase }));
+        for (const p of paths) out.dim("Would add to exclude: " + p);
+        return;
+      }
       for (const p of paths) addToExclude(cwd, p);
       const spinner = out.createSpinner();
       spinner.start("Removing from vault…");
       try {
-        await removeFromVault(cwd, paths, { onPhase: (msg) => spinner.updateText(msg) });
+        await removeFromVault(cwd, paths, { onPhase: (msg) => spinner.updateText(msg), message: opts.message });
         spinner.succeed("Removed " + paths.length + " file(s) from vault and added to exclude.");
       } catch (e) {
         spinner.fail();
         throw e;
       }
+      updateProjectIgnore();
     } catch (e) {
       handleCliError(e);
     }
@@ -334,7 +1369,9 @@ program
 program
   .command("add [path]")
   .description("Add a file to the vault (include and store). Without path, show a list of addable files to choose from.")
-  .action(async (pathArg: string | undefined) => {
+  .option("--allow-secrets", "Push even if the secret scan finds keys or tokens in the files")
+  .option("-m, --message <text>", "Subject of the vault commit (default: the commitMessage template)")
+  .action(async (pathArg: string | undefined, opts: { allowSecrets?: boolean; message?: string }) => {
     try {
       if (!isInitialized(cwd)) {
         out.error("Not initialized. Run 'agvault init' first.");
@@ -346,14 +1383,21 @@ program
         const spinner = out.createSpinner();
         spinner.start("Storing in vault…");
         try {
-          await storeToVault(cwd, { onPhase: (msg) => spinner.updateText(msg) });
+          await storeToVault(cwd, {
+            onPhase: (msg) => spinner.updateText(msg),
+            allowSecrets: opts.allowSecrets,
+            action: "add",
+            message: opts.message,
+          });
           spinner.succeed("Added and stored " + path + " in vault.");
         } catch (e) {
           spinner.fail();
           throw e;
         }
+        updateProjectIgnore();
         return;
       }
+      requireInteractive("Pass the path to add, e.g. 'agvault add README.md' (see 'agvault list --local').");
       const [collected, inVault] = await Promise.all([
         collectFiles(cwd),
         (async () => {
@@ -386,12 +1430,18 @@ program
       const spinner = out.createSpinner();
       spinner.start("Storing in vault…");
       try {
-        await storeToVault(cwd, { onPhase: (msg) => spinner.updateText(msg) });
+        await storeToVault(cwd, {
+          onPhase: (msg) => spinner.updateText(msg),
+          allowSecrets: opts.allowSecrets,
+          action: "add",
+          message: opts.message,
+        });
         spinner.succeed("Stored selected file(s) in vault.");
       } catch (e) {
         spinner.fail();
         throw e;
       }
+      updateProjectIgnore();
     } catch (e) {
       handleCliError(e);
     }
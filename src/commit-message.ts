@@ -0,0 +1,79 @@
+import { hostname } from "os";
+
+/**
+ * Subject line of vault commits made by store, sync, add, remove and rekey ("commitMessage" in the config overrides it).
+ * Placeholders: {action} {workspace} {host} {summary} {added} {modified} {deleted}.
+ */
+export const DEFAULT_COMMIT_MESSAGE = "agvault: {action} {workspace} ({summary}) from {host}";
+
+const PLACEHOLDERS = ["action", "workspace", "host", "summary", "added", "modified", "deleted"];
+
+/** Most changed files listed in the commit body; the rest are counted. */
+const MAX_LISTED_FILES = 50;
+
+/** Files a commit adds, changes and deletes, as paths in the vault (e.g. "vault/<workspace>/AGENTS.md"). */
+export interface VaultChanges {
+  added: string[];
+  modified: string[];
+  deleted: string[];
+}
+
+export interface CommitMessageInput {
+  /** What made the commit: "store", "sync", "add", "remove", "rekey". */
+  action: string;
+  workspace: string;
+  changes: VaultChanges;
+  /** Template for the subject line (default: DEFAULT_COMMIT_MESSAGE). */
+  template?: string;
+  /** Subject given with -m; replaces the template. */
+  message?: string;
+}
+
+/** Problem with a commitMessage template (unknown placeholder, empty); null when it is fine. */
+export function checkCommitTemplate(template: string): string | null {
+  if (!template.trim()) return "commitMessage is empty.";
+  for (const [, name] of template.matchAll(/\{([^{}]*)\}/g)) {
+    if (!PLACEHOLDERS.includes(name)) {
+      return `Unknown placeholder {${name}} in commitMessage. Use: ${PLACEHOLDERS.map((p) => `{${p}}`).join(" ")}.`;
+    }
+  }
+  return null;
+}
+
+/** "2 added, 1 modified" (changes of each kind that has any). */
+export function summarizeChanges(changes: VaultChanges): string {
+  const parts = [
+    [changes.added.length, "added"],
+    [changes.modified.length, "modified"],
+    [changes.deleted.length, "deleted"],
+  ].filter(([n]) => n !== 0);
+  return parts.length > 0 ? parts.map(([n, kind]) => `${n} ${kind}`).join(", ") : "no file changes";
+}
+
+/**
+ * Commit message: the subject (the -m message, or the template filled in), a blank line, then the changed files
+ * ("added: <path>", at most MAX_LISTED_FILES). Files outside vault/ (e.g. workspaces.json) are listed but not counted.
+ */
+export function formatCommitMessage(input: CommitMessageInput): string {
+  const counted: VaultChanges = {
+    added: input.changes.added.filter((p) => p.startsWith("vault/")),
+    modified: input.changes.modified.filter((p) => p.startsWith("vault/")),
+    deleted: input.changes.deleted.filter((p) => p.startsWith("vault/")),
+  };
+  const values: Record<string, string> = {
+    action: input.action,
+    workspace: input.workspace,
+    host: hostname(),
+    summary: summarizeChanges(counted),
+    added: String(counted.added.length),
+    modified: String(counted.modified.length),
+    deleted: String(counted.deleted.length),
+  };
+  const subject =
+    input.message?.trim() ||
+    (input.template ?? DEFAULT_COMMIT_MESSAGE).replace(/\{([^{}]*)\}/g, (match, name: string) => values[name] ?? match);
+  const lines = (["added", "modified", "deleted"] as const).flatMap((kind) => input.changes[kind].map((p) => `${kind}: ${p}`));
+  const listed = lines.slice(0, MAX_LISTED_FILES);
+  if (lines.length > listed.length) listed.push(`… and ${lines.length - listed.length} more`);
+  return listed.length > 0 ? `${subject}\n\n${listed.join("\n")}` : subject;
+}
@@ -0,0 +1,505 @@
+import { existsSync } from "fs";
+import { glob } from "glob";
+import {
+  DEFAULT_EXCLUDE,
+  DEFAULT_INCLUDE,
+  DEFAULT_VAULT,
+  loadRawConfig,
+  saveRawConfig,
+  type AgVaultConfig,
+  type VaultTarget,
+} from "./config.js";
+import { loadGlobalConfig, loadGlobalDefault, parseIdentity } from "./global-default.js";
+import { DEFAULT_COMMIT_MESSAGE, checkCommitTemplate } from "./commit-message.js";
+import { getBackendKind } from "./backend.js";
+import { CONFIG_SCHEMA, CONFIG_VERSION, findUnknownKeys, getConfigVersion, validateSchema, type FieldType } from "./config-schema.js";
+import { getKeyPath } from "./crypto.js";
+import { validateWorkspaceName } from "./workspace.js";
+import { removeVaultState } from "./state.js";
+import { findOverlaps } from "./vault.js";
+
+/**
+ * Where an effective value comes from: .agvault/config.json, the project's profile or the default vault in
+ * ~/.agvault/default.json, or agvault's built-in default.
+ */
+export type ConfigSource = "project" | "profile" | "global" | "default";
+
+export interface EffectiveSetting {
+  key: string;
+  /** null when the setting is off or not decided yet (e.g. workspace before the first store). */
+  value: unknown;
+  source: ConfigSource;
+}
+
+export interface ConfigIssue {
+  level: "error" | "warning";
+  /** Config key the issue is about, when there is one. */
+  key?: string;
+  message: string;
+}
+
+export type PatternList = "include" | "exclude";
+
+/** Set by other commands only: why `config set` refuses them. */
+const READ_ONLY: Record<string, string> = {
+  version: "It is the schema version agvault stamps on every save.",
+  "encryption.keyId": "Encryption is set up by 'agvault init' and changed with 'agvault rekey', which also re-encrypts the vault.",
+  vaults: "Add, change and remove vaults with 'agvault vault set|remove'.",
+  projectId: "It is set by 'agvault init'; the project's workspace claims in the vault carry it.",
+};
+
+/** Schema fields by key; fields of an object (encryption) are addressed as "encryption.keyId". */
+const KEYS: Record<string, FieldType> = Object.fromEntries(
+  Object.entries(CONFIG_SCHEMA).flatMap(([name, field]) =>
+    field.type.kind === "object"
+      ? Object.entries(field.type.fields).map(([sub, f]) => [`${name}.${sub}`, f.type])
+      : [[name, field.type]]
+  )
+);
+
+export const CONFIG_KEYS = Object.keys(KEYS);
+
+function requireConfig(cwd: string): Record<string, unknown> {
+  const raw = loadRawConfig(cwd);
+  if (!raw) throw new Error("Not initialized. Run 'agvault init' first.");
+  return raw;
+}
+
+function getSpec(key: string): FieldType {
+  const spec = KEYS[key];
+  if (!spec) {
+    const hint = suggestKey(key);
+    throw new Error(`Unknown config key "${key}".${hint ? ` Did you mean "${hint}"?` : ""} Keys: ${CONFIG_KEYS.join(", ")}.`);
+  }
+  return spec;
+}
+
+function getRaw(raw: Record<string, unknown>, key: string): unknown {
+  let value: unknown = raw;
+  for (const part of key.split(".")) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+    value = (value as Record<string, unknown>)[part];
+  }
+  return value;
+}
+
+/** Closest known key within two edits, for typos like "exlude". */
+function suggestKey(key: string): string | null {
+  let best: string | null = null;
+  let bestDistance = 3;
+  for (const known of CONFIG_KEYS) {
+    const d = editDistance(key.toLowerCase(), known.toLowerCase());
+    if (d < bestDistance) {
+      best = known;
+      bestDistance = d;
+    }
+  }
+  return best;
+}
+
+function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Every setting with the value agvault uses and where it comes from. The global default vault
+ * (~/.agvault/default.json) only supplies repoUrl and backend to a project that has no repoUrl yet, as init does.
+ * The project's profile supplies the author (and so the committer) of vault commits when the project sets none.
+ */
+export function getEffectiveConfig(cwd: string): EffectiveSetting[] {
+  const raw = loadRawConfig(cwd) ?? {};
+  const projectRepoUrl = typeof raw.repoUrl === "string" ? raw.repoUrl : "";
+  const globalDefault = projectRepoUrl ? null : loadGlobalDefault();
+  const repoUrl = projectRepoUrl || globalDefault?.defaultRepoUrl || "";
+  const profileAuthor = typeof raw.profile === "string" ? loadGlobalConfig().profiles?.[raw.profile]?.author : undefined;
+
+  const fallback = (key: string): EffectiveSetting => {
+    switch (key) {
+      case "version":
+        return { key, value: CONFIG_VERSION, source: "default" };
+      case "repoUrl":
+        return { key, value: globalDefault?.defaultRepoUrl ?? null, source: globalDefault ? "global" : "default" };
+      case "backend":
+        if (globalDefault?.defaultBackend) return { key, value: globalDefault.defaultBackend, source: "global" };
+        return { key, value: repoUrl ? getBackendKind({ repoUrl } as AgVaultConfig) : null, source: "default" };
+      case "include":
+        return { key, value: [...DEFAULT_INCLUDE], source: "default" };
+      case "exclude":
+        return { key, value: [...DEFAULT_EXCLUDE], source: "default" };
+      case "branch":
+        return { key, value: "main", source: "default" };
+      case "cache":
+      case "allowPublicRepo":
+        return { key, value: false, source: "default" };
+      case "allowSecrets":
+      case "layers":
+        return { key, value: [], source: "default" };
+      case "gitIgnore":
+        return { key, value: "exclude", source: "default" };
+      case "commitMessage":
+        return { key, value: DEFAULT_COMMIT_MESSAGE, source: "default" };
+      case "author":
+        return profileAuthor ? { key, value: profileAuthor, source: "profile" } : { key, value: null, source: "default" };
+      case "committer":
+        // The committer defaults to the author
+        if (raw.author !== undefined) return { key, value: raw.author, source: "project" };
+        return profileAuthor ? { key, value: profileAuthor, source: "profile" } : { key, value: null, source: "default" };
+      default:
+        return { key, value: null, source: "default" };
+    }
+  };
+
+  return CONFIG_KEYS.map((key) => {
+    const value = getRaw(raw, key);
+    return value === undefined ? fallback(key) : { key, value, source: "project" };
+  });
+}
+
+export function getConfigValue(cwd: string, key: string): EffectiveSetting {
+  getSpec(key);
+  requireConfig(cwd);
+  return getEffectiveConfig(cwd).find((s) => s.key === key)!;
+}
+
+/**
+ * Split a comma-separated list (e.g. patterns given on the command line). Commas inside {} belong to a brace
+ * pattern ("*.{md,mdc}") and do not split; a backslash escapes the next character.
+ */
+export function splitCommaList(value: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const c = value[i];
+    if (c === "\\") i++;
+    else if (c === "{") depth++;
+    else if (c === "}" && depth > 0) depth--;
+    else if (c === "," && depth === 0) {
+      items.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(value.slice(start));
+  return items.map((v) => v.trim()).filter(Boolean);
+}
+
+/** Parse a value given on the command line for key; lists are comma-separated (see splitCommaList). Throws with the accepted values. */
+function parseValue(key: string, type: FieldType, input: string): unknown {
+  const value = input.trim();
+  switch (type.kind) {
+    case "boolean":
+      if (value === "true") return true;
+      if (value === "false") return false;
+      throw new Error(`"${key}" is true or false, got "${input}".`);
+    case "enum":
+      if (!type.values.includes(value)) throw new Error(`Unknown ${key} "${input}". Use one of: ${type.values.join(", ")}.`);
+      return value;
+    case "string[]":
+      return [...new Set(splitCommaList(value))];
+    case "integer":
+      if (!/^\d+$/.test(value)) throw new Error(`"${key}" is a whole number, got "${input}".`);
+      return Number(value);
+    case "identity":
+      return parseIdentity(value);
+    case "string":
+    case "object":
+    case "record":
+      if (!value) throw new Error(`"${key}" cannot be empty. Use 'agvault config unset ${key}' to remove it.`);
+      return value;
+  }
+}
+
+/** Set key in .agvault/config.json after checking the value. Other keys, including unknown ones, are kept. Returns the saved value. */
+export function setConfigValue(cwd: string, key: string, input: string): unknown {
+  const type = getSpec(key);
+  if (READ_ONLY[key]) throw new Error(`"${key}" cannot be set with 'agvault config'. ${READ_ONLY[key]}`);
+  const raw = requireConfig(cwd);
+  const value = parseValue(key, type, input);
+  const invalid = checkValue(key, value);
+  if (invalid) throw new Error(invalid);
+  raw[key] = value;
+  saveRawConfig(cwd, raw);
+  return value;
+}
+
+/** Remove key from .agvault/config.json so its default applies again. Returns false when it was not set. */
+export function unsetConfigValue(cwd: string, key: string): boolean {
+  getSpec(key);
+  if (READ_ONLY[key]) throw new Error(`"${key}" cannot be unset with 'agvault config'. ${READ_ONLY[key]}`);
+  if (key === "repoUrl") throw new Error("repoUrl is required. Use 'agvault config set repoUrl <url>' to change the vault.");
+  const raw = requireConfig(cwd);
+  if (!(key in raw)) return false;
+  delete raw[key];
+  saveRawConfig(cwd, raw);
+  return true;
+}
+
+/** Add patterns to include or exclude (starting from the defaults when the list is not in the file). Returns the ones that were new. */
+export function addPatterns(cwd: string, list: PatternList, patterns: string[]): string[] {
+  const raw = requireConfig(cwd);
+  const current = getPatternList(cwd, raw, list);
+  for (const pattern of patterns) {
+    const invalid = checkPattern(pattern);
+    if (invalid) throw new Error(`${list} "${pattern}": ${invalid}`);
+  }
+  const added = [...new Set(patterns)].filter((p) => !current.includes(p));
+  if (added.length === 0) return [];
+  raw[list] = [...current, ...added];
+  saveRawConfig(cwd, raw);
+  return added;
+}
+
+/** Remove patterns from include or exclude. Throws (and changes nothing) when one of them is not in the list. */
+export function removePatterns(cwd: string, list: PatternList, patterns: string[]): string[] {
+  const raw = requireConfig(cwd);
+  const current = getPatternList(cwd, raw, list);
+  const missing = patterns.filter((p) => !current.includes(p));
+  if (missing.length > 0) {
+    throw new Error(`Not in ${list}: ${missing.join(", ")}. Current ${list} patterns: ${current.join(", ") || "(none)"}.`);
+  }
+  raw[list] = current.filter((p) => !patterns.includes(p));
+  saveRawConfig(cwd, raw);
+  return patterns;
+}
+
+function getPatternList(cwd: string, raw: Record<string, unknown>, list: PatternList): string[] {
+  const value = raw[list];
+  if (value === undefined) return [...(list === "include" ? DEFAULT_INCLUDE : DEFAULT_EXCLUDE)];
+  if (!isStringList(value)) throw new Error(`"${list}" in .agvault/config.json is not a list of strings. Run 'agvault config validate'.`);
+  return value;
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === "string");
+}
+
+/** Glob syntax problems that would make a pattern match nothing or something unintended; null when it looks fine. */
+function checkPattern(pattern: string): string | null {
+  if (!pattern.trim()) return "empty pattern.";
+  if (pattern !== pattern.trim()) return "leading or trailing spaces.";
+  if (pattern.startsWith("/")) return `patterns are relative to the project root; drop the leading "/".`;
+  if (pattern.includes("\\")) return 'use "/" as the path separator.';
+  if (pattern.split("/").includes("..")) return "patterns cannot point outside the project.";
+  let brackets = 0;
+  let braces = 0;
+  let parens = 0;
+  for (const ch of pattern) {
+    if (ch === "[") brackets++;
+    else if (ch === "]") brackets = Math.max(0, brackets - 1);
+    else if (ch === "{") braces++;
+    else if (ch === "}") braces--;
+    else if (ch === "(") parens++;
+    else if (ch === ")") parens--;
+    if (braces < 0 || parens < 0) break;
+  }
+  if (brackets > 0) return 'unclosed "[".';
+  if (braces !== 0) return 'unbalanced "{" and "}".';
+  if (parens !== 0) return 'unbalanced "(" and ")".';
+  return null;
+}
+
+/** Problem with a value of the right type (workspace and layer names, empty strings, glob syntax); null when it is fine. */
+function checkValue(key: string, value: unknown): string | null {
+  if (typeof value === "string" && !value.trim()) return `"${key}" is empty.`;
+  if (key === "profile" && typeof value === "string" && !loadGlobalConfig().profiles?.[value]) {
+    return `No profile "${value}" in ~/.agvault/default.json. See 'agvault profile list'.`;
+  }
+  if (key === "workspace" && typeof value === "string") return validateWorkspaceName(value);
+  if (key === "commitMessage" && typeof value === "string") return checkCommitTemplate(value);
+  if (key === "layers" && isStringList(value)) {
+    for (const layer of value) {
+      const invalid = validateWorkspaceName(layer);
+      if (invalid) return invalid.replace("workspace name", "layer name");
+    }
+  }
+  if ((key === "include" || key === "exclude") && isStringList(value)) {
+    for (const pattern of value) {
+      const invalid = checkPattern(pattern);
+      if (invalid) return `${key} "${pattern}": ${invalid}`;
+    }
+  }
+  return null;
+}
+
+/** The project's additional vaults as written in .agvault/config.json. */
+export function getVaults(cwd: string): Record<string, VaultTarget> {
+  const vaults = requireConfig(cwd).vaults;
+  return vaults && typeof vaults === "object" && !Array.isArray(vaults) ? (vaults as Record<string, VaultTarget>) : {};
+}
+
+/**
+ * Add a vault to the project, or change the given fields of one (undefined fields are kept).
+ * A new vault needs repoUrl and include. Returns the saved entry.
+ */
+export function setVault(cwd: string, name: string, changes: Partial<VaultTarget>): VaultTarget {
+  if (name === DEFAULT_VAULT) {
+    throw new Error(`"${DEFAULT_VAULT}" is the vault of the top-level settings; change it with 'agvault config set'.`);
+  }
+  const invalid = validateWorkspaceName(name);
+  if (invalid) throw new Error(invalid.replace("workspace name", "vault name"));
+  const raw = requireConfig(cwd);
+  const defined = Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)) as Partial<VaultTarget>;
+  for (const [key, value] of Object.entries(defined)) {
+    const problem = checkValue(key, value);
+    if (problem) throw new Error(problem);
+  }
+  const vault = { ...getVaults(cwd)[name], ...defined } as VaultTarget;
+  if (!vault.repoUrl) throw new Error(`Vault "${name}" needs a repo: pass --repo <url or path>.`);
+  if (!vault.include?.length) throw new Error(`Vault "${name}" needs include patterns: pass --include <patterns>.`);
+  saveRawConfig(cwd, { ...raw, vaults: { ...getVaults(cwd), [name]: vault } });
+  return vault;
+}
+
+/** Remove a vault from the project and forget its sync state. Its files stay in the project and in the vault. */
+export function removeVault(cwd: string, name: string): void {
+  const raw = requireConfig(cwd);
+  const { [name]: removed, ...vaults } = getVaults(cwd);
+  if (!removed) {
+    const names = Object.keys(vaults);
+    throw new Error(`No vault "${name}" in .agvault/config.json.` + (names.length > 0 ? ` Vaults: ${names.join(", ")}.` : ""));
+  }
+  const { vaults: _old, ...rest } = raw;
+  saveRawConfig(cwd, Object.keys(vaults).length > 0 ? { ...rest, vaults } : rest);
+  removeVaultState(cwd, name);
+}
+
+/** Static part of a glob before its first special character, e.g. "docs/" for "docs/**\/*.md". */
+function staticPrefix(pattern: string): string {
+  const i = pattern.search(/[*?[{(]/);
+  return i === -1 ? pattern : pattern.slice(0, i);
+}
+
+/**
+ * Check .agvault/config.json: JSON syntax, unknown keys, value types, names, glob syntax,
+ * and include/exclude rules that contradict each other or are listed twice. Errors make commands fail or
+ * silently do something else than intended; warnings are worth a look.
+ */
+export async function validateConfig(cwd: string): Promise<ConfigIssue[]> {
+  let raw: Record<string, unknown> | null;
+  try {
+    raw = loadRawConfig(cwd);
+  } catch (err) {
+    return [{ level: "error", message: err instanceof Error ? err.message : String(err) }];
+  }
+  if (!raw) return [{ level: "error", message: "Not initialized: .agvault/config.json does not exist. Run 'agvault init' first." }];
+
+  const issues: ConfigIssue[] = [];
+  const version = getConfigVersion(raw);
+  if (version > CONFIG_VERSION) {
+    issues.push({
+      level: "warning",
+      key: "version",
+      message: `Written by a newer agvault (config version ${version}, this one knows ${CONFIG_VERSION}): it is read as far as it can be, but not changed.`,
+    });
+  }
+  for (const key of findUnknownKeys(raw)) {
+    const hint = suggestKey(key);
+    issues.push(
+      hint
+        ? { level: "error", key, message: `Unknown key "${key}" is ignored. Did you mean "${hint}"?` }
+        : { level: "warning", key, message: `Unknown key "${key}" is ignored (a typo, or a setting of a newer agvault).` }
+    );
+  }
+  for (const e of validateSchema(raw)) issues.push({ level: "error", key: e.path, message: e.message });
+  if (raw.repoUrl === undefined) issues.push({ level: "error", key: "repoUrl", message: "repoUrl is missing. Run 'agvault init' or 'agvault config set repoUrl <url>'." });
+
+  for (const key of CONFIG_KEYS) {
+    const value = getRaw(raw, key);
+    const invalid = value === undefined ? null : checkValue(key, value);
+    if (invalid) issues.push({ level: "error", key, message: invalid });
+  }
+
+  const keyId = getRaw(raw, "encryption.keyId");
+  if (typeof keyId === "string" && !existsSync(getKeyPath(keyId))) {
+    issues.push({ level: "warning", key: "encryption.keyId", message: `Key ${keyId} is not on this machine (${getKeyPath(keyId)}). Copy it from another machine or import it with 'agvault init'.` });
+  }
+
+  const include = isStringList(raw.include) ? raw.include : raw.include === undefined ? DEFAULT_INCLUDE : null;
+  const exclude = isStringList(raw.exclude) ? raw.exclude : raw.exclude === undefined ? DEFAULT_EXCLUDE : null;
+  if (include && exclude) issues.push(...(await checkRules(cwd, include, exclude)));
+  issues.push(...(await checkVaults(cwd, raw, include ?? [])));
+  return issues;
+}
+
+/** Names and values of each entry of "vaults", its include/exclude rules, and files or patterns that belong to more than one vault. */
+async function checkVaults(cwd: string, raw: Record<string, unknown>, defaultInclude: string[]): Promise<ConfigIssue[]> {
+  const vaults = raw.vaults && typeof raw.vaults === "object" && !Array.isArray(raw.vaults) ? (raw.vaults as Record<string, unknown>) : {};
+  if (Object.keys(vaults).length === 0) return [];
+  const issues: ConfigIssue[] = [];
+  const includedBy = new Map<string, string[]>(defaultInclude.map((p) => [p, [DEFAULT_VAULT]]));
+  for (const [name, entry] of Object.entries(vaults)) {
+    const key = `vaults.${name}`;
+    if (name === DEFAULT_VAULT) issues.push({ level: "error", key, message: `"${DEFAULT_VAULT}" is the vault of the top-level settings; rename this one.` });
+    const invalid = validateWorkspaceName(name);
+    if (invalid) issues.push({ level: "error", key, message: invalid.replace("workspace name", "vault name") });
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) continue;
+    const target = entry as Record<string, unknown>;
+    for (const [field, value] of Object.entries(target)) {
+      const problem = checkValue(field, value);
+      if (problem) issues.push({ level: "error", key: `${key}.${field}`, message: problem });
+    }
+    const include = isStringList(target.include) ? target.include : null;
+    const exclude = isStringList(target.exclude) ? target.exclude : target.exclude === undefined ? DEFAULT_EXCLUDE : null;
+    if (!include || !exclude) continue;
+    for (const issue of await checkRules(cwd, include, exclude)) issues.push({ ...issue, key: `${key}.${issue.key}` });
+    for (const p of new Set(include)) includedBy.set(p, [...(includedBy.get(p) ?? []), name]);
+  }
+  for (const [pattern, names] of includedBy) {
+    if (names.length > 1) issues.push({ level: "warning", key: "vaults", message: `"${pattern}" is included by vaults ${names.join(" and ")}.` });
+  }
+  // Overlapping files need every vault's config to load
+  if (validateSchema(raw).length > 0) return issues;
+  for (const o of await findOverlaps(cwd)) {
+    issues.push({
+      level: "error",
+      key: "vaults",
+      message: `${o.path} matches the patterns of vaults ${o.vaults.join(" and ")}; store and sync refuse until it is excluded from all but one.`,
+    });
+  }
+  return issues;
+}
+
+/** Duplicates, patterns in both lists, includes covered by an exclude, and includes whose files are all excluded. */
+async function checkRules(cwd: string, include: string[], exclude: string[]): Promise<ConfigIssue[]> {
+  const issues: ConfigIssue[] = [];
+  for (const [list, patterns] of [["include", include], ["exclude", exclude]] as const) {
+    const seen = new Set<string>();
+    for (const p of patterns) {
+      if (seen.has(p)) issues.push({ level: "warning", key: list, message: `"${p}" is listed twice.` });
+      seen.add(p);
+      if (p.endsWith("/")) issues.push({ level: "warning", key: list, message: `"${p}" only matches the folder itself; use "${p}**" for the files in it.` });
+    }
+  }
+  if (!include.some((p) => !exclude.includes(p))) {
+    issues.push({ level: "warning", key: "include", message: "No include patterns are left after excludes, so nothing is stored." });
+  }
+  for (const p of new Set(include)) {
+    if (checkPattern(p)) continue;
+    if (exclude.includes(p)) {
+      issues.push({ level: "warning", key: "include", message: `"${p}" is both included and excluded; exclude wins, so it matches nothing.` });
+      continue;
+    }
+    const prefix = staticPrefix(p);
+    const covering = exclude.find((e) => e.endsWith("/**") && !/[*?[{(]/.test(e.slice(0, -3)) && prefix.startsWith(e.slice(0, -2)));
+    if (covering) {
+      issues.push({ level: "warning", key: "include", message: `"${p}" is inside excluded "${covering}", so it matches nothing.` });
+      continue;
+    }
+    // Only a pattern that collects nothing is worth the second, unfiltered walk
+    const kept = await glob(p, { cwd, nodir: true, dot: true, ignore: exclude });
+    if (kept.length > 0) continue;
+    const all = await glob(p, { cwd, nodir: true, dot: true, ignore: ["node_modules/**", ".git/**"] });
+    if (all.length > 0) {
+      issues.push({ level: "warning", key: "include", message: `"${p}" matches ${all.length} file(s) here, but every one of them is excluded.` });
+    }
+  }
+  return issues;
+}
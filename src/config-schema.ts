@@ -0,0 +1,212 @@
+import { BACKEND_KINDS } from "./backend.js";
+import { GIT_IGNORE_TARGETS } from "./git-ignore.js";
+
+/**
+ * Major version of the .agvault/config.json schema this agvault reads and writes.
+ * Fields that older versions can safely ignore do not bump it (older versions keep keys they do not know);
+ * a change that would make an older version misread the file does, with a migration below.
+ */
+export const CONFIG_VERSION = 1;
+
+export type FieldType =
+  | { kind: "string" }
+  | { kind: "boolean" }
+  | { kind: "integer" }
+  | { kind: "string[]" }
+  | { kind: "enum"; values: readonly string[] }
+  | { kind: "object"; fields: Record<string, Field> }
+  /** Commit identity: { "name": ..., "email": ... }; set on the command line as "Name <email>". */
+  | { kind: "identity" }
+  /** Object with any keys (e.g. profile names), every value of the given type. */
+  | { kind: "record"; values: FieldType };
+
+export interface Field {
+  type: FieldType;
+  required?: boolean;
+}
+
+const IDENTITY_FIELDS: Record<string, Field> = {
+  name: { type: { kind: "string" }, required: true },
+  email: { type: { kind: "string" }, required: true },
+};
+
+const ENCRYPTION: Field = { type: { kind: "object", fields: { keyId: { type: { kind: "string" }, required: true } } } };
+
+/** Fields of an entry of "vaults"; see VaultTarget. */
+const VAULT_TARGET_FIELDS: Record<string, Field> = {
+  repoUrl: { type: { kind: "string" }, required: true },
+  backend: { type: { kind: "enum", values: BACKEND_KINDS } },
+  include: { type: { kind: "string[]" }, required: true },
+  exclude: { type: { kind: "string[]" } },
+  branch: { type: { kind: "string" } },
+  workspace: { type: { kind: "string" } },
+  cache: { type: { kind: "boolean" } },
+  allowSecrets: { type: { kind: "string[]" } },
+  layers: { type: { kind: "string[]" } },
+  allowPublicRepo: { type: { kind: "boolean" } },
+  profile: { type: { kind: "string" } },
+  encryption: ENCRYPTION,
+};
+
+/** Fields of .agvault/config.json; see AgVaultConfig for what each one does. */
+export const CONFIG_SCHEMA: Record<string, Field> = {
+  version: { type: { kind: "integer" } },
+  repoUrl: { type: { kind: "string" } },
+  backend: { type: { kind: "enum", values: BACKEND_KINDS } },
+  include: { type: { kind: "string[]" } },
+  exclude: { type: { kind: "string[]" } },
+  branch: { type: { kind: "string" } },
+  workspace: { type: { kind: "string" } },
+  projectId: { type: { kind: "string" } },
+  cache: { type: { kind: "boolean" } },
+  allowSecrets: { type: { kind: "string[]" } },
+  layers: { type: { kind: "string[]" } },
+  gitIgnore: { type: { kind: "enum", values: GIT_IGNORE_TARGETS } },
+  allowPublicRepo: { type: { kind: "boolean" } },
+  profile: { type: { kind: "string" } },
+  encryption: ENCRYPTION,
+  commitMessage: { type: { kind: "string" } },
+  author: { type: { kind: "identity" } },
+  committer: { type: { kind: "identity" } },
+  vaults: { type: { kind: "record", values: { kind: "object", fields: VAULT_TARGET_FIELDS } } },
+};
+
+export interface SchemaError {
+  /** Where in the file, e.g. "include[2]" or "encryption.keyId". */
+  path: string;
+  message: string;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "a list";
+  if (typeof value === "string") return JSON.stringify(value);
+  if (typeof value === "object") return "an object";
+  return `${typeof value} ${String(value)}`;
+}
+
+function expected(type: FieldType): string {
+  switch (type.kind) {
+    case "string":
+      return "a string";
+    case "boolean":
+      return "true or false";
+    case "integer":
+      return "a whole number";
+    case "string[]":
+      return "a list of strings";
+    case "enum":
+      return "one of " + type.values.map((v) => JSON.stringify(v)).join(", ");
+    case "object":
+      return "an object";
+    case "identity":
+      return 'an object { "name", "email" }';
+    case "record":
+      return `an object of ${expected(type.values).replace(/^an? /, "")} values`;
+  }
+}
+
+function checkField(path: string, type: FieldType, value: unknown, errors: SchemaError[]): void {
+  const fail = () => errors.push({ path, message: `expected ${expected(type)}, got ${describe(value)}` });
+  switch (type.kind) {
+    case "string":
+      if (typeof value !== "string") fail();
+      return;
+    case "boolean":
+      if (typeof value !== "boolean") fail();
+      return;
+    case "integer":
+      if (typeof value !== "number" || !Number.isInteger(value) || value < 0) fail();
+      return;
+    case "enum":
+      if (typeof value !== "string" || !type.values.includes(value)) fail();
+      return;
+    case "string[]":
+      if (!Array.isArray(value)) {
+        fail();
+        return;
+      }
+      value.forEach((item, i) => {
+        if (typeof item !== "string") errors.push({ path: `${path}[${i}]`, message: `expected a string, got ${describe(item)}` });
+      });
+      return;
+    case "object":
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        fail();
+        return;
+      }
+      checkFields(path + ".", type.fields, value as Record<string, unknown>, errors);
+      return;
+    case "identity":
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        fail();
+        return;
+      }
+      checkFields(path + ".", IDENTITY_FIELDS, value as Record<string, unknown>, errors);
+      return;
+    case "record":
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        fail();
+        return;
+      }
+      for (const [name, item] of Object.entries(value)) checkField(`${path}.${name}`, type.values, item, errors);
+      return;
+  }
+}
+
+function checkFields(prefix: string, fields: Record<string, Field>, raw: Record<string, unknown>, errors: SchemaError[]): void {
+  for (const [name, field] of Object.entries(fields)) {
+    const value = raw[name];
+    if (value === undefined) {
+      if (field.required) errors.push({ path: prefix + name, message: `missing (expected ${expected(field.type)})` });
+      continue;
+    }
+    checkField(prefix + name, field.type, value, errors);
+  }
+}
+
+/** Type errors in a parsed config, with the path of each bad value. Keys the schema does not know are not errors (see findUnknownKeys). */
+export function validateSchema(raw: Record<string, unknown>): SchemaError[] {
+  return validateFields(CONFIG_SCHEMA, raw);
+}
+
+/** Type errors of raw against any set of fields (the project config, or ~/.agvault/default.json). */
+export function validateFields(fields: Record<string, Field>, raw: Record<string, unknown>): SchemaError[] {
+  const errors: SchemaError[] = [];
+  checkFields("", fields, raw, errors);
+  return errors;
+}
+
+/** Top-level keys the schema does not define: typos, or fields of a newer agvault. */
+export function findUnknownKeys(raw: Record<string, unknown>): string[] {
+  return Object.keys(raw).filter((key) => !(key in CONFIG_SCHEMA));
+}
+
+/** Schema version of a parsed config; configs from before versioning have none and count as 0. */
+export function getConfigVersion(raw: Record<string, unknown>): number {
+  return typeof raw.version === "number" ? raw.version : 0;
+}
+
+/** migrations[n] turns a version n config into version n + 1. */
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>) => Record<string, unknown>> = {
+  // 0 → 1: configs from before the version field; the fields themselves are unchanged
+  0: (raw) => raw,
+};
+
+/**
+ * Upgrade a parsed config to CONFIG_VERSION by running the migrations from its version on, and stamp the version.
+ * Configs from a newer version are returned unchanged. `migrated` is true when the result differs from the input.
+ */
+export function migrateConfig(raw: Record<string, unknown>): { config: Record<string, unknown>; migrated: boolean } {
+  let version = getConfigVersion(raw);
+  if (version >= CONFIG_VERSION) return { config: raw, migrated: false };
+  let config = { ...raw };
+  for (; version < CONFIG_VERSION; version++) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`Cannot upgrade .agvault/config.json from version ${version}: no migration.`);
+    config = migrate(config);
+  }
+  // version first, as saveConfig writes it
+  const { version: _old, ...rest } = config;
+  return { config: { version: CONFIG_VERSION, ...rest }, migrated: true };
+}
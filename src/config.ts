@@ -1,5 +1,9 @@
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
 import { dirname, join, resolve } from "path";
+import type { BackendKind } from "./backend.js";
+import type { GitIgnoreTarget } from "./git-ignore.js";
+import type { CommitIdentity } from "./global-default.js";
+import { CONFIG_VERSION, findUnknownKeys, getConfigVersion, migrateConfig, validateSchema } from "./config-schema.js";
 
 export const CONFIG_DIR = ".agvault";
 export const CONFIG_FILE = "config.json";
@@ -26,14 +30,77 @@ export const DEFAULT_EXCLUDE: string[] = [
 ];
 
 export interface AgVaultConfig {
-  /** GitHub repo URL (HTTPS or SSH) for the private vault */
+  /** Schema version the file was written with (see CONFIG_VERSION); set on save */
+  version?: number;
+  /** Vault location: GitHub or other git remote URL (HTTPS or SSH), local bare repo or file:// URL, or folder for the directory backend */
   repoUrl: string;
+  /** Optional: storage backend ("github", "git" or "directory"); detected from repoUrl when missing */
+  backend?: BackendKind;
   /** Glob patterns for files/folders to include */
   include: string[];
   /** Glob patterns to exclude */
   exclude: string[];
   /** Optional: branch to use (default: main) */
   branch?: string;
+  /** Folder under vault/ holding this project's files (stable across renames and reclones; set by init) */
+  workspace?: string;
+  /** Random id of the project (set by init); its workspace claims carry it, so projects without a git remote are told apart */
+  projectId?: string;
+  /** Optional: keep a bare mirror of the vault under ~/.agvault/cache and fetch incrementally (default: temp clone per command) */
+  cache?: boolean;
+  /** Optional: files (globs) or exact values the secret scan accepts before store/sync push */
+  allowSecrets?: string[];
+  /** Optional: shared layers (vault/_shared/<name>) pulled under the workspace files; later layers win */
+  layers?: string[];
+  /** Optional: where vaulted files are listed so the project's own git repo ignores them (default: "exclude") */
+  gitIgnore?: GitIgnoreTarget;
+  /** Optional: push even when the GitHub repo is public or internal, or its visibility cannot be checked (default: refuse) */
+  allowPublicRepo?: boolean;
+  /** Optional: vault profile from ~/.agvault/default.json the project was set up with (its author signs vault commits) */
+  profile?: string;
+  /** Optional: client-side encryption of vault files; the key itself lives in ~/.agvault/keys/<keyId>.key */
+  encryption?: { keyId: string };
+  /** Optional: subject line of vault commits, with placeholders such as {workspace} and {summary} (see DEFAULT_COMMIT_MESSAGE) */
+  commitMessage?: string;
+  /** Optional: author of vault commits (default: the profile's author, then git's user.name / user.email) */
+  author?: CommitIdentity;
+  /** Optional: committer of vault commits (default: the author) */
+  committer?: CommitIdentity;
+  /** Optional: more vaults for this project by name (the fields above are the vault named "default"); see VaultTarget */
+  vaults?: Record<string, VaultTarget>;
+}
+
+/**
+ * Another vault the project stores some of its files in, e.g. a team vault next to a personal one.
+ * Each vault has its own include/exclude patterns; a file must belong to one vault only.
+ * workspace, cache and allowSecrets default to the top-level values, and projectId, commitMessage, author and
+ * committer always come from there; the other fields do not carry over.
+ */
+export interface VaultTarget {
+  repoUrl: string;
+  backend?: BackendKind;
+  include: string[];
+  /** Default: DEFAULT_EXCLUDE */
+  exclude?: string[];
+  /** Default: main */
+  branch?: string;
+  workspace?: string;
+  cache?: boolean;
+  allowSecrets?: string[];
+  layers?: string[];
+  allowPublicRepo?: boolean;
+  profile?: string;
+  encryption?: { keyId: string };
+}
+
+/** Name of the vault configured by the top-level fields of .agvault/config.json. */
+export const DEFAULT_VAULT = "default";
+
+/** Names of the project's vaults, the default vault first. */
+export function getVaultNames(cwd: string): string[] {
+  const vaults = loadRawConfig(cwd)?.vaults;
+  const names = vaults && typeof vaults === "object" && !Array.isArray(vaults) ? Object.keys(vaults) : [];
+  return [DEFAULT_VAULT, ...names.filter((n) => n !== DEFAULT_VAULT)];
 }
 
 export const DEFAULT_CONFIG: Partial<AgVaultConfig> = {
@@ -64,29 +131,143 @@ export function getProjectRoot(startDir?: string): string {
 }
 
 /**
- * Load config from .agvault/config.json.
+ * Load config from .agvault/config.json, upgraded to the current schema version (see loadRawConfig).
+ * With vault, returns the settings of that vault (vaults.<name>, with the inherited top-level fields) instead of the default one.
  * Returns null only when the file does not exist.
- * Throws when the file exists but JSON is invalid (so callers can show "fix config" instead of "not initialized").
+ * Throws when the file exists but JSON is invalid or a value has the wrong type (so callers can show "fix config" instead of "not initialized").
  */
-export function loadConfig(cwd: string): AgVaultConfig | null {
+export function loadConfig(cwd: string, vault: string = DEFAULT_VAULT): AgVaultConfig | null {
+  const raw = loadRawConfig(cwd);
+  if (!raw) return null;
+  const errors = validateSchema(raw);
+  if (errors.length > 0) {
+    throw new Error(`${INVALID_CONFIG}:\n${errors.map((e) => `  ${e.path}: ${e.message}`).join("\n")}`);
+  }
+  const parsed = raw as Partial<AgVaultConfig>;
+  if (vault !== DEFAULT_VAULT) {
+    const target = parsed.vaults?.[vault];
+    if (!target) throw new Error(`No vault "${vault}" in .agvault/config.json. Vaults: ${getVaultNames(cwd).join(", ")}.`);
+    return toConfig({
+      ...target,
+      workspace: target.workspace ?? parsed.workspace,
+      cache: target.cache ?? parsed.cache,
+      allowSecrets: target.allowSecrets ?? parsed.allowSecrets,
+      gitIgnore: parsed.gitIgnore,
+      projectId: parsed.projectId,
+      commitMessage: parsed.commitMessage,
+      author: parsed.author,
+      committer: parsed.committer,
+    });
+  }
+  return { ...toConfig(parsed), ...(parsed.vaults ? { vaults: parsed.vaults } : {}) };
+}
+
+function toConfig(parsed: Partial<AgVaultConfig>): AgVaultConfig {
+  return {
+    repoUrl: parsed.repoUrl ?? "",
+    include: parsed.include ?? [...DEFAULT_INCLUDE],
+    exclude: parsed.exclude ?? [...DEFAULT_EXCLUDE],
+    branch: parsed.branch ?? "main",
+    ...(parsed.backend ? { backend: parsed.backend } : {}),
+    ...(parsed.workspace ? { workspace: parsed.workspace } : {}),
+    ...(parsed.projectId ? { projectId: parsed.projectId } : {}),
+    ...(parsed.cache === true ? { cache: true } : {}),
+    ...(parsed.layers && parsed.layers.length > 0 ? { layers: parsed.layers } : {}),
+    ...(parsed.gitIgnore ? { gitIgnore: parsed.gitIgnore } : {}),
+    ...(parsed.allowPublicRepo === true ? { allowPublicRepo: true } : {}),
+    ...(parsed.allowSecrets ? { allowSecrets: parsed.allowSecrets } : {}),
+    ...(parsed.profile ? { profile: parsed.profile } : {}),
+    ...(parsed.encryption ? { encryption: { keyId: parsed.encryption.keyId } } : {}),
+    ...(parsed.commitMessage ? { commitMessage: parsed.commitMessage } : {}),
+    ...(parsed.author ? { author: { name: parsed.author.name, email: parsed.author.email } } : {}),
+    ...(parsed.committer ? { committer: { name: parsed.committer.name, email: parsed.committer.email } } : {}),
+  };
+}
+
+/** Start of the error thrown for a config with values of the wrong type; handleCliError recognizes it. */
+export const INVALID_CONFIG = "Invalid .agvault/config.json";
+
+function readConfigFile(cwd: string): Record<string, unknown> | null {
   const path = getConfigPath(cwd);
   if (!existsSync(path)) return null;
+  let parsed: unknown;
   try {
-    const raw = readFileSync(path, "utf-8");
-    const parsed = JSON.parse(raw) as Partial<AgVaultConfig>;
-    return {
-      repoUrl: parsed.repoUrl ?? "",
-      include: parsed.include ?? [...DEFAULT_INCLUDE],
-      exclude: parsed.exclude ?? [...DEFAULT_EXCLUDE],
-      branch: parsed.branch ?? "main",
-    };
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
   } catch (err) {
     const msg = err instanceof Error ? err.message : String(err);
     throw new Error(`Invalid JSON in .agvault/config.json: ${msg}`);
   }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("Invalid JSON in .agvault/config.json: expected an object with repoUrl, include, exclude, ...");
+  }
+  return parsed as Record<string, unknown>;
+}
+
+/**
+ * .agvault/config.json as written: no defaults filled in, unknown keys kept.
+ * A config from an older schema version is migrated in memory (the file is upgraded by the next command that saves
+ * it); one from a newer version is returned as is.
+ * Returns null when the file does not exist; throws like loadConfig when it is not a JSON object.
+ */
+export function loadRawConfig(cwd: string): Record<string, unknown> | null {
+  const raw = readConfigFile(cwd);
+  return raw && migrateConfig(raw).config;
+}
+
+/**
+ * Save config, keeping keys this version does not know (written by a newer agvault) so they survive the round trip.
+ * With vault, config holds that vault's settings (as loadConfig returns them) and is written to vaults.<name>.
+ * Refuses to overwrite a config from a newer schema version.
+ */
+export function saveConfig(cwd: string, config: AgVaultConfig, vault: string = DEFAULT_VAULT): void {
+  const onDisk = loadRawConfig(cwd);
+  if (vault !== DEFAULT_VAULT) {
+    saveRawConfig(cwd, { ...onDisk, vaults: { ...(onDisk?.vaults as object), [vault]: toTarget(cwd, vault, config) } });
+    return;
+  }
+  const unknown = onDisk ? Object.fromEntries(findUnknownKeys(onDisk).map((key) => [key, onDisk[key]])) : {};
+  saveRawConfig(cwd, { ...config, ...unknown });
+}
+
+const TARGET_KEYS: (keyof VaultTarget)[] = [
+  "repoUrl", "backend", "include", "exclude", "branch", "workspace", "cache", "allowSecrets", "layers", "allowPublicRepo", "profile", "encryption",
+];
+
+/**
+ * The vaults.<name> entry for config: fields as they were in the file, with the ones config changes (compared with
+ * what loadConfig returns now) replaced, so inherited and default values are not written out.
+ */
+function toTarget(cwd: string, name: string, config: AgVaultConfig): VaultTarget {
+  const current = loadConfig(cwd, name)! as unknown as Record<string, unknown>;
+  const vaults = loadRawConfig(cwd)?.vaults as Record<string, VaultTarget> | undefined;
+  const target: Record<string, unknown> = { ...vaults?.[name] };
+  for (const key of TARGET_KEYS) {
+    const value = config[key];
+    if (JSON.stringify(value) === JSON.stringify(current[key])) continue;
+    if (value === undefined) delete target[key];
+    else target[key] = value;
+  }
+  return target as unknown as VaultTarget;
+}
+
+/**
+ * Write .agvault/config.json as given, stamped with the current schema version
+ * (used by `agvault config` so keys it does not know are not dropped). Refuses to overwrite a config from a newer schema version.
+ */
+export function saveRawConfig(cwd: string, config: object): void {
+  const onDisk = readConfigFile(cwd);
+  const version = onDisk ? getConfigVersion(onDisk) : CONFIG_VERSION;
+  if (version > CONFIG_VERSION) {
+    throw new Error(
+      `.agvault/config.json is from a newer agvault (config version ${version}; this one writes version ${CONFIG_VERSION}). ` +
+        "Upgrade agvault (npm i -g agvault) before changing it."
+    );
+  }
+  const { version: _version, ...rest } = config as Record<string, unknown>;
+  writeConfigFile(cwd, { version: CONFIG_VERSION, ...rest });
 }
 
-export function saveConfig(cwd: string, config: AgVaultConfig): void {
+function writeConfigFile(cwd: string, config: Record<string, unknown>): void {
   const dir = join(cwd, CONFIG_DIR);
   if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
   const path = getConfigPath(cwd);
@@ -0,0 +1,117 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
+import { join } from "path";
+import { homedir } from "os";
+
+const GLOBAL_DIR = ".agvault";
+const KEYS_DIR = "keys";
+
+/** Header of every encrypted vault file: magic, key id, IV, auth tag, then AES-256-GCM ciphertext. */
+const MAGIC = Buffer.from("AGVENC01", "ascii");
+const KEY_ID_BYTES = 8;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const HEADER_BYTES = MAGIC.length + KEY_ID_BYTES + IV_BYTES + TAG_BYTES;
+const KEY_BYTES = 32;
+
+export interface EncryptionKey {
+  /** Short fingerprint of the key (hex), stored in config and in each encrypted file. */
+  id: string;
+  key: Buffer;
+}
+
+/** Key files live outside any project: ~/.agvault/keys/<id>.key (base64). */
+export function getKeyPath(keyId: string): string {
+  return join(homedir(), GLOBAL_DIR, KEYS_DIR, `${keyId}.key`);
+}
+
+function fingerprint(key: Buffer): string {
+  return createHash("sha256").update(key).digest("hex").slice(0, KEY_ID_BYTES * 2);
+}
+
+export function generateKey(): EncryptionKey {
+  const key = randomBytes(KEY_BYTES);
+  return { id: fingerprint(key), key };
+}
+
+/**
+ * Parse a key given as base64 text or as a path to a key file (as written by saveKey).
+ * Throws when the value is not a 256-bit key.
+ */
+export function importKey(value: string): EncryptionKey {
+  const trimmed = value.trim();
+  const text = existsSync(trimmed) ? readFileSync(trimmed, "utf-8").trim() : trimmed;
+  const key = Buffer.from(text, "base64");
+  if (key.length !== KEY_BYTES) {
+    throw new Error("Invalid encryption key: expected a base64-encoded 256-bit key or the path to a .key file.");
+  }
+  return { id: fingerprint(key), key };
+}
+
+export function saveKey(key: EncryptionKey): string {
+  const dir = join(homedir(), GLOBAL_DIR, KEYS_DIR);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const path = getKeyPath(key.id);
+  writeFileSync(path, key.key.toString("base64") + "\n", { encoding: "utf-8", mode: 0o600 });
+  return path;
+}
+
+/** Keys already read in this process, by id. */
+const loadedKeys = new Map<string, EncryptionKey>();
+
+/** Load a key by id. Throws with instructions when the key file is missing on this machine. */
+export function loadKey(keyId: string): EncryptionKey {
+  const cached = loadedKeys.get(keyId);
+  if (cached) return cached;
+  const path = getKeyPath(keyId);
+  if (!existsSync(path)) {
+    throw new Error(
+      `Encryption key ${keyId} not found at ${path}. Copy it from a machine that has it, or import it with 'agvault init'.`
+    );
+  }
+  const key = importKey(readFileSync(path, "utf-8"));
+  if (key.id !== keyId) throw new Error(`Key file ${path} does not contain key ${keyId}.`);
+  loadedKeys.set(keyId, key);
+  return key;
+}
+
+export function isEncrypted(data: Buffer): boolean {
+  return data.length >= HEADER_BYTES && data.subarray(0, MAGIC.length).equals(MAGIC);
+}
+
+/** Id of the key an encrypted file was written with. */
+export function getEncryptedKeyId(data: Buffer): string {
+  return data.subarray(MAGIC.length, MAGIC.length + KEY_ID_BYTES).toString("hex");
+}
+
+/**
+ * Authenticated encryption (AES-256-GCM, random IV). path (the file's path from the vault root) is authenticated
+ * with the content, so a file moved or copied to another path by whoever hosts the vault no longer decrypts.
+ */
+export function encrypt(data: Buffer, key: EncryptionKey, path: string): Buffer {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key.key, iv);
+  cipher.setAAD(Buffer.from(path, "utf-8"));
+  const ciphertext = Buffer.concat([cipher.update(data), cipher.final()]);
+  return Buffer.concat([MAGIC, Buffer.from(key.id, "hex"), iv, cipher.getAuthTag(), ciphertext]);
+}
+
+/**
+ * Decrypt a file written by encrypt for the same path. Throws when the key does not match, the content was
+ * tampered with, or the file was written for another path.
+ */
+export function decrypt(data: Buffer, key: EncryptionKey, path: string): Buffer {
+  const keyId = getEncryptedKeyId(data);
+  if (keyId !== key.id) throw new Error(`${path} is encrypted with key ${keyId}, not ${key.id}.`);
+  let offset = MAGIC.length + KEY_ID_BYTES;
+  const iv = data.subarray(offset, (offset += IV_BYTES));
+  const tag = data.subarray(offset, (offset += TAG_BYTES));
+  const decipher = createDecipheriv("aes-256-gcm", key.key, iv);
+  decipher.setAAD(Buffer.from(path, "utf-8"));
+  decipher.setAuthTag(tag);
+  try {
+    return Buffer.concat([decipher.update(data.subarray(offset)), decipher.final()]);
+  } catch {
+    throw new Error(`Could not decrypt ${path}: the file was modified, moved from another path, or the key is wrong.`);
+  }
+}
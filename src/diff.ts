@@ -0,0 +1,114 @@
+/** Number of unchanged lines shown around each change in a unified diff. */
+const CONTEXT_LINES = 3;
+
+interface DiffOp {
+  kind: " " | "-" | "+";
+  line: string;
+}
+
+/** Split text into lines, keeping each line's "\n" so a missing final newline shows up as a change. */
+function splitLines(text: string): string[] {
+  if (!text) return [];
+  return text.split(/(?<=\n)/);
+}
+
+/** Myers O(ND) line diff. Returns the edit script from a to b. */
+function diffLines(a: string[], b: string[]): DiffOp[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds v for k in [-(d+1), d+1] as it was before step d
+  const trace: Int32Array[] = [];
+
+  outer: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break outer;
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const prev = trace[d];
+    const at = (k: number) => prev[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push({ kind: " ", line: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) ops.push({ kind: "+", line: b[y - 1] });
+      else ops.push({ kind: "-", line: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+}
+
+function formatLine(op: DiffOp): string {
+  if (op.line.endsWith("\n")) return op.kind + op.line;
+  return op.kind + op.line + "\n\\ No newline at end of file\n";
+}
+
+function formatRange(start: number, count: number): string {
+  // Unified diff convention: an empty range starts at the line before it
+  if (count === 0) return `${start - 1},0`;
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Unified diff between two texts (same format as `diff -u` / `git diff`).
+ * Returns an empty string when the texts are equal.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string): string {
+  if (oldText === newText) return "";
+  const ops = diffLines(splitLines(oldText), splitLines(newText));
+
+  // Group changes into hunks, merging those separated by at most 2 * CONTEXT_LINES unchanged lines
+  const hunks: Array<{ start: number; end: number }> = [];
+  ops.forEach((op, i) => {
+    if (op.kind === " ") return;
+    const last = hunks[hunks.length - 1];
+    if (last && i - last.end <= 2 * CONTEXT_LINES + 1) last.end = i;
+    else hunks.push({ start: i, end: i });
+  });
+
+  let out = `--- ${oldLabel}\n+++ ${newLabel}\n`;
+  let oldLine = 1;
+  let newLine = 1;
+  let pos = 0;
+  for (const hunk of hunks) {
+    const from = Math.max(0, hunk.start - CONTEXT_LINES);
+    const to = Math.min(ops.length - 1, hunk.end + CONTEXT_LINES);
+    for (; pos < from; pos++) {
+      if (ops[pos].kind !== "+") oldLine++;
+      if (ops[pos].kind !== "-") newLine++;
+    }
+    const slice = ops.slice(from, to + 1);
+    const oldCount = slice.filter((op) => op.kind !== "+").length;
+    const newCount = slice.filter((op) => op.kind !== "-").length;
+    out += `@@ -${formatRange(oldLine, oldCount)} +${formatRange(newLine, newCount)} @@\n`;
+    out += slice.map(formatLine).join("");
+    for (; pos <= to; pos++) {
+      if (ops[pos].kind !== "+") oldLine++;
+      if (ops[pos].kind !== "-") newLine++;
+    }
+  }
+  return out;
+}
@@ -62,6 +62,49 @@ export function parseGitHubRepoUrl(repoUrl: string): string | null {
   return null;
 }
 
+/** Who can see a GitHub repo. "internal" repos are visible to every member of the enterprise. */
+export type RepoVisibility = "public" | "private" | "internal";
+
+const API_TIMEOUT_MS = 5000;
+
+/**
+ * Visibility of a GitHub repo: asks gh (`gh repo view --json visibility`), else the public GitHub API,
+ * which only answers for public repos. Null when it cannot be determined (no access, repo missing, offline).
+ */
+export async function getRepoVisibility(repoUrl: string): Promise<RepoVisibility | null> {
+  const repo = parseGitHubRepoUrl(repoUrl);
+  if (!repo) return null;
+  if (isGhAvailable()) {
+    try {
+      const view = spawnSync("gh", ["repo", "view", repo, "--json", "visibility", "-q", ".visibility"], {
+        stdio: "pipe",
+        shell: true,
+        encoding: "utf-8",
+      });
+      const visibility = (view.stdout ?? "").trim().toLowerCase();
+      if (view.status === 0 && isRepoVisibility(visibility)) return visibility;
+    } catch {
+      // fall back to the API
+    }
+  }
+  try {
+    const res = await fetch(`https://api.github.com/repos/${repo}`, {
+      headers: { Accept: "application/vnd.github+json" },
+      signal: AbortSignal.timeout(API_TIMEOUT_MS),
+    });
+    if (!res.ok) return null;
+    const body = (await res.json()) as { visibility?: string; private?: boolean };
+    const visibility = (body.visibility ?? (body.private ? "private" : "public")).toLowerCase();
+    return isRepoVisibility(visibility) ? visibility : null;
+  } catch {
+    return null;
+  }
+}
+
+function isRepoVisibility(value: string): value is RepoVisibility {
+  return value === "public" || value === "private" || value === "internal";
+}
+
 /**
  * Check if GitHub CLI (gh) is available.
  */
@@ -0,0 +1,81 @@
+import { spawnSync } from "child_process";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join, relative, resolve } from "path";
+import { getVaultNames, loadConfig } from "./config.js";
+import { loadState } from "./state.js";
+
+/**
+ * Where the list of vaulted files is written so `git add .` in the project skips them:
+ * - "exclude": .git/info/exclude (local to this clone, never committed)
+ * - "gitignore": .gitignore in the project root (shared with everyone who clones the project)
+ * - "off": nothing is written
+ */
+export type GitIgnoreTarget = "exclude" | "gitignore" | "off";
+
+export const GIT_IGNORE_TARGETS: GitIgnoreTarget[] = ["exclude", "gitignore", "off"];
+
+const BLOCK_START = "# >>> agvault: vaulted files (managed by agvault, do not edit)";
+const BLOCK_END = "# <<< agvault";
+
+function git(cwd: string, args: string[]): string | null {
+  try {
+    const r = spawnSync("git", args, { cwd, stdio: "pipe", encoding: "utf-8" });
+    return r.status === 0 ? (r.stdout ?? "") : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Escape gitignore pattern characters so a path only matches itself. */
+function toPattern(path: string): string {
+  return "/" + path.replace(/[\\*?[]/g, "\\$&").replace(/ +$/, (spaces) => spaces.replace(/ /g, "\\ "));
+}
+
+/** Replace the managed block in an ignore file (removed when entries is empty). Writes only when something changed. */
+function writeBlock(file: string, entries: string[]): void {
+  const existing = existsSync(file) ? readFileSync(file, "utf-8") : "";
+  const start = existing.indexOf(BLOCK_START);
+  if (start === -1 && entries.length === 0) return;
+  const end = start === -1 ? -1 : existing.indexOf(BLOCK_END, start);
+  let rest = existing;
+  if (start !== -1 && end !== -1) {
+    const after = existing.slice(end + BLOCK_END.length).replace(/^\r?\n/, "");
+    rest = existing.slice(0, start) + after;
+  }
+  rest = rest.replace(/\n*$/, "");
+  const block = entries.length > 0 ? [BLOCK_START, ...entries, BLOCK_END].join("\n") + "\n" : "";
+  const next = rest && block ? `${rest}\n\n${block}` : rest ? rest + "\n" : block;
+  if (next === existing) return;
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, next, "utf-8");
+}
+
+/**
+ * List the project's vaulted files (workspace and shared-layer files in the sync state of each of its vaults) in a managed block of its git ignore rules,
+ * per config.gitIgnore (default "exclude"). The block is removed from the other file, so switching targets moves it.
+ * Returns vaulted files the project repo already tracks: ignore rules do not apply to them.
+ * Does nothing when the project is not inside a git repo.
+ */
+export function updateGitIgnore(cwd: string): string[] {
+  const toplevel = git(cwd, ["rev-parse", "--show-toplevel"])?.trim();
+  const excludePath = git(cwd, ["rev-parse", "--git-path", "info/exclude"])?.trim();
+  if (!toplevel || !excludePath) return [];
+  const target = loadConfig(cwd)?.gitIgnore ?? "exclude";
+  const vaulted = new Set<string>();
+  for (const name of getVaultNames(cwd)) {
+    const state = loadState(cwd, name);
+    for (const p of [...Object.keys(state?.files ?? {}), ...Object.keys(state?.shared ?? {})]) vaulted.add(p);
+  }
+  const paths = [...vaulted].sort();
+
+  // info/exclude patterns are relative to the repo root, .gitignore patterns to the project root
+  const prefix = relative(toplevel, cwd).replace(/\\/g, "/");
+  writeBlock(
+    resolve(cwd, excludePath),
+    target === "exclude" ? paths.map((p) => toPattern(prefix ? `${prefix}/${p}` : p)) : []
+  );
+  writeBlock(join(cwd, ".gitignore"), target === "gitignore" ? paths.map(toPattern) : []);
+
+  const tracked = new Set((git(cwd, ["ls-files", "-z"]) ?? "").split("\0").filter(Boolean));
+  return paths.filter((p) => tracked.has(p));
+}
@@ -1,6 +1,9 @@
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from "fs";
-import { join } from "path";
+import { join, resolve } from "path";
 import { homedir } from "os";
+import { BACKEND_KINDS, type BackendKind } from "./backend.js";
+import { validateFields, type Field } from "./config-schema.js";
+import { normalizeRemote, validateWorkspaceName } from "./workspace.js";
 
 const GLOBAL_DIR = ".agvault";
 const GLOBAL_FILE = "default.json";
@@ -8,28 +11,232 @@ const GLOBAL_FILE = "default.json";
 export interface GlobalDefaultConfig {
   /** Default vault repo URL used when init runs in a new project (no local config). */
   defaultRepoUrl: string;
+  /** Backend of the default vault, when it is not detected from the URL (e.g. "directory"). */
+  defaultBackend?: BackendKind;
 }
 
+/** Name and email written on vault commits. */
+export interface CommitIdentity {
+  name: string;
+  email: string;
+}
+
+/** A named vault (e.g. "personal", "work") that init can set a project up with. */
+export interface VaultProfile {
+  repoUrl: string;
+  backend?: BackendKind;
+  branch?: string;
+  /** Include / exclude patterns for new projects (default: DEFAULT_INCLUDE / DEFAULT_EXCLUDE). */
+  include?: string[];
+  exclude?: string[];
+  /** Author of vault commits made by projects using this profile (default: git's user.name / user.email). */
+  author?: CommitIdentity;
+}
+
+/** Parse "Name <email>" as given to --author and 'agvault config set author'. */
+export function parseIdentity(value: string): CommitIdentity {
+  const m = /^\s*(.+?)\s*<([^<>\s]+@[^<>\s]+)>\s*$/.exec(value);
+  if (!m) throw new Error(`Expected "Name <email>", got "${value}".`);
+  return { name: m[1], email: m[2] };
+}
+
+export function formatIdentity(identity: CommitIdentity): string {
+  return `${identity.name} <${identity.email}>`;
+}
+
+/** Everything in ~/.agvault/default.json. */
+export interface GlobalConfig extends Partial<GlobalDefaultConfig> {
+  profiles?: Record<string, VaultProfile>;
+  /** Directory pattern (e.g. "~/work/**") → profile name; init in a matching folder uses that profile. */
+  directories?: Record<string, string>;
+}
+
+const GLOBAL_SCHEMA: Record<string, Field> = {
+  defaultRepoUrl: { type: { kind: "string" } },
+  defaultBackend: { type: { kind: "enum", values: BACKEND_KINDS } },
+  profiles: {
+    type: {
+      kind: "record",
+      values: {
+        kind: "object",
+        fields: {
+          repoUrl: { type: { kind: "string" }, required: true },
+          backend: { type: { kind: "enum", values: BACKEND_KINDS } },
+          branch: { type: { kind: "string" } },
+          include: { type: { kind: "string[]" } },
+          exclude: { type: { kind: "string[]" } },
+          author: { type: { kind: "identity" } },
+        },
+      },
+    },
+  },
+  directories: { type: { kind: "record", values: { kind: "string" } } },
+};
+
 function getGlobalConfigPath(): string {
   return join(homedir(), GLOBAL_DIR, GLOBAL_FILE);
 }
 
-export function loadGlobalDefault(): GlobalDefaultConfig | null {
+/**
+ * Load ~/.agvault/default.json (empty when it does not exist).
+ * Throws on invalid JSON or values of the wrong type, so a broken profile never falls back to another vault.
+ */
+export function loadGlobalConfig(): GlobalConfig {
   const path = getGlobalConfigPath();
-  if (!existsSync(path)) return null;
+  if (!existsSync(path)) return {};
+  let parsed: unknown;
   try {
-    const raw = readFileSync(path, "utf-8");
-    const parsed = JSON.parse(raw) as Partial<GlobalDefaultConfig>;
-    if (!parsed.defaultRepoUrl?.trim()) return null;
-    return { defaultRepoUrl: parsed.defaultRepoUrl.trim() };
-  } catch {
-    return null;
+    parsed = JSON.parse(readFileSync(path, "utf-8"));
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : String(err);
+    throw new Error(`Invalid JSON in ${path}: ${msg}`);
   }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) throw new Error(`Invalid JSON in ${path}: expected an object.`);
+  const errors = validateFields(GLOBAL_SCHEMA, parsed as Record<string, unknown>);
+  if (errors.length > 0) throw new Error(`Invalid ${path}:\n${errors.map((e) => `  ${e.path}: ${e.message}`).join("\n")}`);
+  return parsed as GlobalConfig;
 }
 
-export function saveGlobalDefault(repoUrl: string): void {
+function saveGlobalConfig(config: GlobalConfig): void {
   const dir = join(homedir(), GLOBAL_DIR);
   if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
-  const path = getGlobalConfigPath();
-  writeFileSync(path, JSON.stringify({ defaultRepoUrl: repoUrl.trim() }, null, 2), "utf-8");
+  writeFileSync(getGlobalConfigPath(), JSON.stringify(config, null, 2), "utf-8");
+}
+
+export function loadGlobalDefault(): GlobalDefaultConfig | null {
+  const config = loadGlobalConfig();
+  if (!config.defaultRepoUrl?.trim()) return null;
+  return { defaultRepoUrl: config.defaultRepoUrl.trim(), ...(config.defaultBackend ? { defaultBackend: config.defaultBackend } : {}) };
+}
+
+/** Remember the default vault; profiles and directory mappings in the file are kept. */
+export function saveGlobalDefault(repoUrl: string, backend?: BackendKind): void {
+  const { defaultBackend: _old, ...config } = loadGlobalConfig();
+  saveGlobalConfig({ ...config, defaultRepoUrl: repoUrl.trim(), ...(backend ? { defaultBackend: backend } : {}) });
+}
+
+/** The profile with this name; throws with the defined names when there is none. */
+export function getProfile(name: string): VaultProfile {
+  const profiles = loadGlobalConfig().profiles ?? {};
+  const profile = profiles[name];
+  if (!profile) {
+    const names = Object.keys(profiles);
+    throw new Error(
+      `No profile "${name}" in ${getGlobalConfigPath()}. ` +
+        (names.length > 0 ? `Profiles: ${names.join(", ")}.` : "Create one with 'agvault profile set <name> --repo <url>'.")
+    );
+  }
+  return profile;
+}
+
+/** Create or update a profile: fields in changes replace the profile's; undefined fields are kept. */
+export function setProfile(name: string, changes: Partial<VaultProfile>): VaultProfile {
+  const invalid = validateWorkspaceName(name);
+  if (invalid) throw new Error(invalid.replace("workspace name", "profile name"));
+  const config = loadGlobalConfig();
+  const existing = config.profiles?.[name];
+  const defined = Object.fromEntries(Object.entries(changes).filter(([, v]) => v !== undefined)) as Partial<VaultProfile>;
+  const profile = { ...existing, ...defined } as VaultProfile;
+  if (!profile.repoUrl) throw new Error(`Profile "${name}" needs a vault: pass --repo <url or path>.`);
+  saveGlobalConfig({ ...config, profiles: { ...config.profiles, [name]: profile } });
+  return profile;
+}
+
+/** Delete a profile and the directory mappings that point to it. Returns the patterns that were unmapped. */
+export function removeProfile(name: string): string[] {
+  const config = loadGlobalConfig();
+  getProfile(name);
+  const { [name]: _removed, ...profiles } = config.profiles ?? {};
+  const unmapped = Object.entries(config.directories ?? {})
+    .filter(([, profile]) => profile === name)
+    .map(([pattern]) => pattern);
+  const directories = Object.fromEntries(Object.entries(config.directories ?? {}).filter(([, profile]) => profile !== name));
+  saveGlobalConfig({ ...config, profiles, directories });
+  return unmapped;
+}
+
+function expandHome(path: string): string {
+  return path === "~" || path.startsWith("~/") ? join(homedir(), path.slice(1)) : path;
+}
+
+/**
+ * Directory pattern as stored: "~" kept, relative paths made absolute, and a plain folder
+ * (no * or ?) turned into "<folder>/**" so it covers every project below it.
+ */
+function normalizeDirPattern(pattern: string): string {
+  let p = pattern.trim().replace(/\\/g, "/").replace(/\/+$/, "");
+  if (!p.startsWith("~") && !p.startsWith("/")) p = resolve(p).replace(/\\/g, "/");
+  return /[*?]/.test(p) ? p : `${p}/**`;
+}
+
+/** "**" matches any number of folders, "*" and "?" stay within one folder name. */
+function dirPatternToRegExp(pattern: string): RegExp {
+  const abs = expandHome(pattern).replace(/\\/g, "/");
+  let re = "";
+  for (let i = 0; i < abs.length; i++) {
+    const ch = abs[i];
+    if (ch === "*" && abs[i + 1] === "*") {
+      i++;
+      if (abs[i + 1] === "/") {
+        i++;
+        re += "(?:.*/)?";
+      } else {
+        re += ".*";
+      }
+    } else if (ch === "*") {
+      re += "[^/]*";
+    } else if (ch === "?") {
+      re += "[^/]";
+    } else {
+      re += ch.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Map folders matching pattern to a profile (replacing an earlier mapping of the same pattern). Returns the stored pattern. */
+export function mapDirectory(pattern: string, profile: string): string {
+  getProfile(profile);
+  const normalized = normalizeDirPattern(pattern);
+  const config = loadGlobalConfig();
+  saveGlobalConfig({ ...config, directories: { ...config.directories, [normalized]: profile } });
+  return normalized;
+}
+
+/** Remove a directory mapping (the pattern as given to map, or as listed). Returns false when it was not mapped. */
+export function unmapDirectory(pattern: string): boolean {
+  const config = loadGlobalConfig();
+  const directories = { ...config.directories };
+  const key = pattern in directories ? pattern : normalizeDirPattern(pattern);
+  if (!(key in directories)) return false;
+  delete directories[key];
+  saveGlobalConfig({ ...config, directories });
+  return true;
+}
+
+/** Profile mapped to a project folder; the longest (most specific) matching pattern wins. */
+export function findDirectoryProfile(cwd: string): { profile: string; pattern: string } | null {
+  const dir = resolve(cwd).replace(/\\/g, "/");
+  let best: { profile: string; pattern: string } | null = null;
+  for (const [pattern, profile] of Object.entries(loadGlobalConfig().directories ?? {})) {
+    const re = dirPatternToRegExp(pattern);
+    if (!re.test(dir) && !re.test(dir + "/")) continue;
+    if (!best || pattern.length > best.pattern.length) best = { profile, pattern };
+  }
+  return best;
+}
+
+/**
+ * Refuse to use a vault other than the one of the profile the project's folder is mapped to,
+ * so a project under e.g. ~/work/** never reads from or pushes to a personal vault.
+ */
+export function assertProfileVault(cwd: string, repoUrl: string): void {
+  const mapped = findDirectoryProfile(cwd);
+  if (!mapped) return;
+  const profile = getProfile(mapped.profile);
+  if (normalizeRemote(profile.repoUrl) === normalizeRemote(repoUrl)) return;
+  throw new Error(
+    `This project is under ${mapped.pattern}, which is mapped to profile "${mapped.profile}" (${profile.repoUrl}), ` +
+      `but its vault is ${repoUrl}. Run 'agvault init --profile ${mapped.profile} --yes' to switch it, or change the mapping with 'agvault profile map'.`
+  );
 }
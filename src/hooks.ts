@@ -0,0 +1,130 @@
+import { spawnSync } from "child_process";
+import { chmodSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { join, relative, resolve } from "path";
+
+/** First comment line of every hook agvault writes; how install and uninstall recognize their own hooks. */
+const HOOK_MARKER = "# agvault hook";
+/** A user's hook found at install time is renamed to <name><suffix> and run first by the agvault hook. */
+const CHAINED_SUFFIX = ".pre-agvault";
+
+export const HOOK_NAMES = ["post-checkout", "post-merge", "pre-push"] as const;
+export type HookName = (typeof HOOK_NAMES)[number];
+
+/** What the pre-push hook does: store the project files in the vault, or only warn when they differ from it. */
+export type PrePushAction = "store" | "warn";
+
+export interface HookChange {
+  name: HookName;
+  /**
+   * installed: new hook; chained: the user's hook was kept and runs first; updated: agvault's hook rewritten.
+   * On uninstall: removed, or restored when the user's chained hook was put back.
+   */
+  action: "installed" | "chained" | "updated" | "removed" | "restored";
+}
+
+function git(cwd: string, args: string[]): string | null {
+  try {
+    const r = spawnSync("git", args, { cwd, stdio: "pipe", encoding: "utf-8" });
+    return r.status === 0 ? (r.stdout ?? "").trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Hooks folder of the project's git repo (core.hooksPath when set). */
+function getHooksDir(cwd: string): { hooksDir: string; toplevel: string } {
+  const toplevel = git(cwd, ["rev-parse", "--show-toplevel"]);
+  if (!toplevel) throw new Error("Not inside a git repository. Hooks are installed into the project's own git repo.");
+  const hooksPath = git(cwd, ["config", "--get", "core.hooksPath"]);
+  if (hooksPath === "/dev/null") throw new Error("Git hooks are disabled in this repository (core.hooksPath is /dev/null).");
+  const hooksDir = hooksPath ? resolve(toplevel, hooksPath) : resolve(cwd, git(cwd, ["rev-parse", "--git-path", "hooks"]) ?? ".git/hooks");
+  return { hooksDir, toplevel };
+}
+
+function isAgvaultHook(path: string): boolean {
+  return existsSync(path) && readFileSync(path, "utf-8").includes(HOOK_MARKER);
+}
+
+/**
+ * Shell commands for a hook's agvault step; failures are reported but never block the git operation.
+ * Checkout and merge run sync, not pull: pull would overwrite local edits that were not stored yet.
+ */
+function hookBody(name: HookName, prePush: PrePushAction): string {
+  const sync = `agvault sync --quiet || echo "agvault: sync failed or left conflicts; run 'agvault sync' to see them." >&2`;
+  switch (name) {
+    case "post-checkout":
+      // $3 is 1 for a branch checkout, 0 for checking out files
+      return `[ "$3" = "1" ] || exit 0
+${sync}`;
+    case "post-merge":
+      return sync;
+    case "pre-push":
+      return prePush === "store"
+        ? `agvault store --quiet || echo "agvault: store failed; run 'agvault store' to retry." >&2`
+        : `statuses=$(agvault status --json 2>/dev/null) || { echo "agvault: could not compare with the vault; run 'agvault status'." >&2; exit 0; }
+if printf '%s' "$statuses" | grep -o '"status":"[a-z-]*"' | grep -qv '"in-sync"'; then
+  echo "agvault: project files differ from the vault; run 'agvault status' and 'agvault sync'." >&2
+fi`;
+  }
+}
+
+function hookScript(name: HookName, projectDir: string, prePush: PrePushAction): string {
+  const chained = name + CHAINED_SUFFIX;
+  return `#!/bin/sh
+${HOOK_MARKER} (${name}): installed by 'agvault hooks install', removed by 'agvault hooks uninstall'
+hook_dir=$(dirname "$0")
+if [ -x "$hook_dir/${chained}" ]; then
+  "$hook_dir/${chained}" "$@" || exit $?
+fi
+command -v agvault >/dev/null 2>&1 || { echo "agvault: not found on PATH, skipping ${name} hook." >&2; exit 0; }
+cd "$(git rev-parse --show-toplevel)/${projectDir}" || exit 0
+${hookBody(name, prePush)}
+exit 0
+`;
+}
+
+/**
+ * Write the post-checkout and post-merge (sync) and pre-push (store or warn) hooks into the project's git repo.
+ * An existing hook that is not agvault's is renamed to <name>.pre-agvault and still runs first;
+ * if it fails, the git operation fails as before and agvault does nothing.
+ */
+export function installHooks(cwd: string, prePush: PrePushAction): HookChange[] {
+  const { hooksDir, toplevel } = getHooksDir(cwd);
+  const projectDir = relative(toplevel, cwd).replace(/\\/g, "/");
+  mkdirSync(hooksDir, { recursive: true });
+  const changes: HookChange[] = [];
+  for (const name of HOOK_NAMES) {
+    const path = join(hooksDir, name);
+    let action: HookChange["action"] = "installed";
+    if (isAgvaultHook(path)) action = "updated";
+    else if (existsSync(path)) {
+      if (existsSync(path + CHAINED_SUFFIX)) {
+        throw new Error(`Both ${path} and ${path + CHAINED_SUFFIX} exist. Merge or remove one of them, then run the command again.`);
+      }
+      renameSync(path, path + CHAINED_SUFFIX);
+      action = "chained";
+    }
+    writeFileSync(path, hookScript(name, projectDir, prePush), "utf-8");
+    chmodSync(path, 0o755);
+    changes.push({ name, action });
+  }
+  return changes;
+}
+
+/** Remove agvault's hooks and put back the user's hooks they chained. Hooks agvault did not write are left alone. */
+export function uninstallHooks(cwd: string): HookChange[] {
+  const { hooksDir } = getHooksDir(cwd);
+  const changes: HookChange[] = [];
+  for (const name of HOOK_NAMES) {
+    const path = join(hooksDir, name);
+    if (!isAgvaultHook(path)) continue;
+    rmSync(path);
+    if (existsSync(path + CHAINED_SUFFIX)) {
+      renameSync(path + CHAINED_SUFFIX, path);
+      changes.push({ name, action: "restored" });
+    } else {
+      changes.push({ name, action: "removed" });
+    }
+  }
+  return changes;
+}
@@ -1,11 +1,376 @@
 import inquirer from "inquirer";
 import { existsSync } from "fs";
+import { join } from "path";
 import { loadConfig, saveConfig, getConfigPath, DEFAULT_INCLUDE, DEFAULT_EXCLUDE, type AgVaultConfig } from "./config.js";
-import { loadGlobalDefault, saveGlobalDefault } from "./global-default.js";
-import { createGitHubRepoByName, isGhAvailable, parseGitHubRepoUrl } from "./gh.js";
+import {
+  findDirectoryProfile,
+  getProfile,
+  loadGlobalConfig,
+  loadGlobalDefault,
+  saveGlobalDefault,
+  type VaultProfile,
+} from "./global-default.js";
+import { createGitHubRepoByName, getRepoVisibility, isGhAvailable, parseGitHubRepoUrl } from "./gh.js";
+import { generateKey, getKeyPath, importKey, saveKey } from "./crypto.js";
+import { createProjectId, deriveWorkspaceName, normalizeRemote, validateWorkspaceName } from "./workspace.js";
+import { BACKEND_KINDS, isLocalRepoUrl, toLocalPath, type BackendKind } from "./backend.js";
+import { requireInteractive } from "./interactive.js";
+import { splitCommaList } from "./config-edit.js";
+import { applyTemplate, listTemplates, type TemplateInfo } from "./vault.js";
 import * as out from "./output.js";
 
-export async function runInit(cwd: string): Promise<void> {
+/**
+ * Ask whether vault files should be encrypted before they are pushed.
+ * Generates or imports a key (saved under ~/.agvault/keys, outside the project) and returns the config entry.
+ */
+async function promptEncryption(existing?: AgVaultConfig["encryption"]): Promise<AgVaultConfig["encryption"]> {
+  const { mode } = await inquirer.prompt<{ mode: "none" | "keep" | "generate" | "import" }>([
+    {
+      type: "list",
+      name: "mode",
+      message: "Encrypt vault files on this machine before they are pushed?",
+      choices: [
+        ...(existing ? [{ name: `Keep current key (${existing.keyId})`, value: "keep" }] : []),
+        { name: "No encryption", value: "none" },
+        { name: "Generate a new key", value: "generate" },
+        { name: "Import an existing key (base64 or path to a .key file)", value: "import" },
+      ],
+      default: existing ? "keep" : "none",
+    },
+  ]);
+  if (mode === "none") return undefined;
+  if (mode === "keep") return existing;
+  let key;
+  if (mode === "generate") {
+    key = generateKey();
+  } else {
+    const { value } = await inquirer.prompt<{ value: string }>([
+      {
+        type: "password",
+        name: "value",
+        message: "Key (base64) or path to key file:",
+        mask: "*",
+        validate: (v: string) => {
+          try {
+            importKey(v);
+            return true;
+          } catch (e) {
+            return e instanceof Error ? e.message : String(e);
+          }
+        },
+      },
+    ]);
+    key = importKey(value);
+  }
+  const keyPath = saveKey(key);
+  out.success("Encryption key " + key.id + " saved to " + keyPath);
+  if (mode === "generate") {
+    out.dim("Copy this file to the same path on your other machines (or import it there with agvault init). Without it the vault cannot be decrypted.");
+  }
+  return { keyId: key.id };
+}
+
+/**
+ * For a local vault path, ask whether it is a git repo (history; created as a bare repo on first store)
+ * or a plain folder. Remote URLs need no answer: the backend is detected from the URL.
+ */
+async function promptBackend(repoUrl: string, existing?: BackendKind): Promise<BackendKind | undefined> {
+  if (!isLocalRepoUrl(repoUrl)) return undefined;
+  const path = toLocalPath(repoUrl);
+  const isGitRepo = existsSync(join(path, "HEAD")) || existsSync(join(path, ".git"));
+  const { backend } = await inquirer.prompt<{ backend: "git" | "directory" }>([
+    {
+      type: "list",
+      name: "backend",
+      message: `How should the vault be kept at ${path}?`,
+      choices: [
+        { name: "Git repository (history for log and restore; created as a bare repo if missing)", value: "git" },
+        { name: "Plain folder (e.g. a network share; no history)", value: "directory" },
+      ],
+      default: existing ?? (isGitRepo || !existsSync(path) ? "git" : "directory"),
+    },
+  ]);
+  return backend === "directory" ? "directory" : undefined;
+}
+
+/**
+ * Offer to bootstrap the project from a template saved in the vault (agvault template save).
+ * Skipped silently when the vault has no templates or cannot be reached yet.
+ */
+async function promptTemplate(cwd: string): Promise<void> {
+  const spinner = out.createSpinner();
+  spinner.start("Looking for templates in the vault…");
+  let templates: TemplateInfo[];
+  try {
+    templates = await listTemplates(cwd, { onPhase: (msg) => spinner.updateText(msg) });
+    spinner.stop();
+  } catch {
+    spinner.stop();
+    return;
+  }
+  if (templates.length === 0) return;
+  const { template } = await inquirer.prompt<{ template: string }>([
+    {
+      type: "list",
+      name: "template",
+      message: "Start from a template?",
+      choices: [
+        { name: "No template", value: "" },
+        ...templates.map((t) => ({ name: `${t.name} (${t.files} file(s))`, value: t.name })),
+      ],
+      default: "",
+    },
+  ]);
+  if (!template) return;
+  const { written, skipped } = await applyTemplate(cwd, template);
+  out.success(`Applied template ${template}: ${written.length} file(s).`);
+  if (skipped.length > 0) out.dim("Kept existing: " + skipped.join(", "));
+  out.dim("Run 'agvault store' to push them to this project's workspace.");
+}
+
+/**
+ * When profiles exist but none is mapped to this folder, ask which one to use.
+ * Returns null for the default vault (or, without one, another repo), which continues with the usual questions.
+ */
+async function promptProfile(cwd: string): Promise<ResolvedProfile | null> {
+  const names = Object.keys(loadGlobalConfig().profiles ?? {});
+  if (names.length === 0) return null;
+  const globalDefault = loadGlobalDefault();
+  const { name } = await inquirer.prompt<{ name: string }>([
+    {
+      type: "list",
+      name: "name",
+      message: "Which vault should this project use?",
+      choices: [
+        ...names.map((n) => ({ name: `Profile ${n} (${getProfile(n).repoUrl})`, value: n })),
+        {
+          name: globalDefault ? `Default vault (${globalDefault.defaultRepoUrl})` : "Another repo (enter its URL)",
+          value: "",
+        },
+      ],
+    },
+  ]);
+  return name ? resolveProfile(cwd, name) : null;
+}
+
+/** Print whether the GitHub vault repo is private; warn when it is not, or cannot be checked (store and sync will refuse to push). */
+export async function showRepoVisibility(repoUrl: string, allowPublicRepo?: boolean): Promise<void> {
+  const repo = parseGitHubRepoUrl(repoUrl);
+  if (!repo) return;
+  const visibility = await getRepoVisibility(repoUrl);
+  if (visibility === null) {
+    out.warn(
+      `Could not check the visibility of ${repo} (not created yet, no access, or GitHub CLI not logged in). ` +
+        (allowPublicRepo
+          ? `"allowPublicRepo" is set, so vault files will be pushed to it anyway. Make sure it is private.`
+          : `store and sync will refuse to push to it while it exists and this cannot be checked (run 'gh auth login').`)
+    );
+  } else if (visibility === "private") {
+    out.dim(`Repo visibility: private (${repo}).`);
+  } else {
+    out.warn(
+      `${repo} is ${visibility}. ` +
+        (allowPublicRepo
+          ? `"allowPublicRepo" is set, so vault files will be pushed to it.`
+          : `store and sync will refuse to push until it is private (gh repo edit ${repo} --visibility private).`)
+    );
+  }
+}
+
+/** Answers for `agvault init` given as flags. Any of them makes init non-interactive. */
+export interface InitOptions {
+  repo?: string;
+  /** Create a private GitHub repo with this name (gh) and use it as the vault. */
+  createRepo?: string;
+  /** Extra include / exclude patterns on top of the defaults (or the existing config). */
+  include?: string[];
+  exclude?: string[];
+  branch?: string;
+  workspace?: string;
+  backend?: string;
+  /** Generate a new encryption key. */
+  encrypt?: boolean;
+  /** Import an encryption key (base64 or path to a .key file). */
+  key?: string;
+  template?: string;
+  /** Vault profile from ~/.agvault/default.json (default: the profile the folder is mapped to). */
+  profile?: string;
+  /** Accept defaults and overwrite an existing config without asking. */
+  yes?: boolean;
+}
+
+const INIT_FLAGS_HINT =
+  "Pass the answers as flags, e.g. 'agvault init --repo git@github.com:you/vault.git --yes' (see 'agvault init --help').";
+
+function hasInitFlags(opts: InitOptions): boolean {
+  return Object.values(opts).some((v) => v !== undefined && v !== false);
+}
+
+/** Encryption for a non-interactive init: --key imports, --encrypt generates, otherwise the existing setting is kept. */
+function resolveEncryption(opts: InitOptions, existing?: AgVaultConfig["encryption"]): AgVaultConfig["encryption"] {
+  if (!opts.key && !opts.encrypt) return existing;
+  const key = opts.key ? importKey(opts.key) : generateKey();
+  const keyPath = saveKey(key);
+  out.success("Encryption key " + key.id + " saved to " + keyPath);
+  if (!opts.key) {
+    out.dim("Copy this file to the same path on your other machines (or import it there with agvault init). Without it the vault cannot be decrypted.");
+  }
+  return { keyId: key.id };
+}
+
+interface ResolvedProfile {
+  name: string;
+  profile: VaultProfile;
+  /** Directory pattern that selected the profile; null when it was named with --profile. */
+  pattern: string | null;
+}
+
+/**
+ * Profile for init: the one named with --profile, else the one the folder is mapped to (see `agvault profile map`).
+ * Naming a different profile than the mapped one is refused, so a mapped folder never gets another vault.
+ */
+function resolveProfile(cwd: string, requested?: string): ResolvedProfile | null {
+  const mapped = findDirectoryProfile(cwd);
+  if (requested) {
+    const profile = getProfile(requested);
+    if (mapped && mapped.profile !== requested) {
+      throw new Error(
+        `This folder is under ${mapped.pattern}, which is mapped to profile "${mapped.profile}". ` +
+          `Use --profile ${mapped.profile}, or change the mapping with 'agvault profile map'.`
+      );
+    }
+    return { name: requested, profile, pattern: null };
+  }
+  return mapped ? { name: mapped.profile, profile: getProfile(mapped.profile), pattern: mapped.pattern } : null;
+}
+
+function describeProfile({ name, profile, pattern }: ResolvedProfile): string {
+  return `Using profile ${name}${pattern ? ` (${pattern})` : ""}: ${parseGitHubRepoUrl(profile.repoUrl) ?? profile.repoUrl}`;
+}
+
+/**
+ * Init from flags only (CI, scripts, agents): never prompts. Values not given come from the existing config,
+ * then the global default vault, then the defaults. An existing config is only changed with --yes.
+ */
+async function runInitFromFlags(cwd: string, opts: InitOptions): Promise<void> {
+  let existing: AgVaultConfig | null;
+  try {
+    existing = loadConfig(cwd);
+  } catch (err) {
+    if (!opts.yes) throw err;
+    existing = null;
+  }
+  if (existing?.repoUrl && !opts.yes) {
+    throw new Error(`Config already exists (${getConfigPath(cwd)}). Pass --yes to update it with the given flags.`);
+  }
+  if (opts.backend && !BACKEND_KINDS.includes(opts.backend as BackendKind)) {
+    throw new Error(`Unknown backend "${opts.backend}". Use one of: ${BACKEND_KINDS.join(", ")}.`);
+  }
+  if (opts.workspace) {
+    const invalid = validateWorkspaceName(opts.workspace);
+    if (invalid) throw new Error(invalid);
+  }
+
+  const resolved = resolveProfile(cwd, opts.profile);
+  const globalDefault = loadGlobalDefault();
+  let repoUrl = opts.repo?.trim() ?? "";
+  let backend = opts.backend as BackendKind | undefined;
+  if (resolved) {
+    const { name, profile } = resolved;
+    if (opts.createRepo) throw new Error(`--create-repo cannot be used with profile "${name}", which already has a vault (${profile.repoUrl}).`);
+    if (repoUrl && normalizeRemote(repoUrl) !== normalizeRemote(profile.repoUrl)) {
+      throw new Error(`--repo ${repoUrl} is not the vault of profile "${name}" (${profile.repoUrl}). Drop --repo, or change the profile with 'agvault profile set ${name} --repo <url>'.`);
+    }
+    repoUrl = profile.repoUrl;
+    backend ??= profile.backend;
+    out.dim(describeProfile(resolved));
+  }
+  if (!repoUrl && opts.createRepo) {
+    if (!isGhAvailable()) throw new Error("GitHub CLI (gh) not found. Install it from https://cli.github.com/ and run gh auth login, or pass --repo.");
+    const result = createGitHubRepoByName(opts.createRepo);
+    if (!result.ok) throw new Error("Could not create repo: " + result.error);
+    repoUrl = result.url;
+    out.success("Created private repo: " + repoUrl);
+  }
+  if (!repoUrl && existing?.repoUrl) repoUrl = existing.repoUrl;
+  if (!repoUrl && globalDefault?.defaultRepoUrl) {
+    repoUrl = globalDefault.defaultRepoUrl;
+    backend ??= globalDefault.defaultBackend;
+    out.dim("Using default vault: " + (parseGitHubRepoUrl(repoUrl) ?? repoUrl));
+  }
+  if (!repoUrl) throw new Error("No vault repo given. Pass --repo <url or path> or --create-repo <name>.");
+  if (isLocalRepoUrl(repoUrl) && !repoUrl.startsWith("file://")) repoUrl = toLocalPath(repoUrl);
+  const sameVault = repoUrl === existing?.repoUrl;
+  if (sameVault) backend ??= existing!.backend;
+  const profile = resolved?.profile;
+
+  const config: AgVaultConfig = {
+    ...existing,
+    repoUrl,
+    include: [...new Set([...(existing?.include ?? profile?.include ?? DEFAULT_INCLUDE), ...(opts.include ?? [])])],
+    exclude: [...new Set([...(existing?.exclude ?? profile?.exclude ?? DEFAULT_EXCLUDE), ...(opts.exclude ?? [])])],
+    branch: opts.branch ?? (profile && !sameVault ? profile.branch : existing?.branch) ?? profile?.branch ?? "main",
+    workspace: opts.workspace ?? initWorkspace(cwd, existing, repoUrl),
+    projectId: existing?.projectId ?? createProjectId(),
+  };
+  if (!config.workspace) delete config.workspace;
+  if (backend) config.backend = backend;
+  else delete config.backend;
+  if (resolved) config.profile = resolved.name;
+  else if (!sameVault) delete config.profile;
+  const encryption = resolveEncryption(opts, existing?.encryption);
+  if (encryption) config.encryption = encryption;
+  else delete config.encryption;
+
+  saveConfig(cwd, config);
+  // A profile's vault is not the default for folders outside its mapping
+  if (!resolved) saveGlobalDefault(repoUrl, config.backend);
+  out.success("Vault initialized.");
+  out.dim("Config: " + getConfigPath(cwd));
+  await showRepoVisibility(repoUrl, config.allowPublicRepo);
+  if (opts.template) {
+    const { written, skipped } = await applyTemplate(cwd, opts.template);
+    out.success(`Applied template ${opts.template}: ${written.length} file(s).`);
+    if (skipped.length > 0) out.dim("Kept existing: " + skipped.join(", "));
+    out.dim("Run 'agvault store' to push them to this project's workspace.");
+  }
+}
+
+/**
+ * Workspace name for the config init saves. A project set up before workspace names existed keeps none, so the
+ * next store or sync moves its files from vault/<folder name> to the derived name (see resolveWorkspace).
+ */
+function initWorkspace(cwd: string, existing: AgVaultConfig | null, repoUrl: string): string | undefined {
+  if (existing?.workspace) return existing.workspace;
+  if (existing?.repoUrl && existing.repoUrl === repoUrl) return undefined;
+  return deriveWorkspaceName(cwd);
+}
+
+/**
+ * The config interactive init saves: the answers on top of the existing config, so settings init does not ask
+ * about (vaults, layers, allowSecrets, cache, author, ...) are kept. Answers left undefined are removed.
+ */
+function buildInitConfig(
+  cwd: string,
+  existing: AgVaultConfig | null,
+  answers: Pick<AgVaultConfig, "repoUrl" | "backend" | "include" | "exclude" | "branch" | "profile" | "encryption">
+): AgVaultConfig {
+  const config: AgVaultConfig = {
+    ...existing,
+    ...answers,
+    workspace: initWorkspace(cwd, existing, answers.repoUrl),
+    projectId: existing?.projectId ?? createProjectId(),
+  };
+  for (const key of ["backend", "profile", "encryption", "workspace"] as const) {
+    if (config[key] === undefined) delete config[key];
+  }
+  return config;
+}
+
+/** Interactive init; with any option set (or --yes), runs without prompts instead (see runInitFromFlags). */
+export async function runInit(cwd: string, opts: InitOptions = {}): Promise<void> {
+  if (hasInitFlags(opts)) return runInitFromFlags(cwd, opts);
+  requireInteractive(INIT_FLAGS_HINT);
   let existing: AgVaultConfig | null;
   try {
     existing = loadConfig(cwd);
@@ -44,43 +409,69 @@ export async function runInit(cwd: string): Promise<void> {
         { type: "input", name: "includeExtra", message: "Extra include patterns (comma-separated):", default: "" },
         { type: "input", name: "excludeExtra", message: "Extra exclude patterns (comma-separated):", default: "" },
       ]);
-      const inc = includeExtra.split(",").map((s) => s.trim()).filter(Boolean);
-      const exc = excludeExtra.split(",").map((s) => s.trim()).filter(Boolean);
+      const inc = splitCommaList(includeExtra);
+      const exc = splitCommaList(excludeExtra);
       if (inc.length) include = [...new Set([...include, ...inc])];
       if (exc.length) exclude = [...new Set([...exclude, ...exc])];
     }
-    saveConfig(cwd, { ...existing!, include, exclude });
+    let encryption = existing!.encryption;
+    if (encryption && !existsSync(getKeyPath(encryption.keyId))) {
+      out.warn("Encryption key " + encryption.keyId + " is not on this machine.");
+      encryption = await promptEncryption(encryption);
+    }
+    saveConfig(cwd, { ...existing!, include, exclude, encryption });
     out.success("Config updated.");
     out.dim("Config: " + getConfigPath(cwd));
     return;
   }
 
-  // Use global default vault when it exists so we don't prompt for repo again in new projects (one vault for all)
+  // A mapped profile, else the global default vault, so we don't prompt for repo again in new projects
+  const resolved = resolveProfile(cwd) ?? (await promptProfile(cwd));
   const globalDefault = loadGlobalDefault();
-  const useDefaultVault = Boolean(globalDefault?.defaultRepoUrl);
+  const preset = resolved
+    ? { repoUrl: resolved.profile.repoUrl, backend: resolved.profile.backend, label: describeProfile(resolved) }
+    : globalDefault
+      ? {
+          repoUrl: globalDefault.defaultRepoUrl,
+          backend: globalDefault.defaultBackend,
+          label: "Using default vault: " + (parseGitHubRepoUrl(globalDefault.defaultRepoUrl) ?? globalDefault.defaultRepoUrl),
+        }
+      : null;
 
-  if (useDefaultVault) {
-    const repoUrl = globalDefault!.defaultRepoUrl;
-    const repoLabel = parseGitHubRepoUrl(repoUrl) ?? repoUrl;
-    out.dim("Using default vault: " + repoLabel);
+  if (preset) {
+    const { repoUrl, backend } = preset;
+    const profile = resolved?.profile;
+    out.dim(preset.label);
     const answers = await inquirer.prompt<{ customize: boolean; includeExtra: string; excludeExtra: string }>([
       { type: "confirm", name: "customize", message: "Add or exclude more files/folders besides the predefined ones?", default: false },
       { type: "input", name: "includeExtra", message: "Extra include patterns (comma-separated globs):", default: "", when: (a) => a.customize },
       { type: "input", name: "excludeExtra", message: "Extra exclude patterns (comma-separated globs):", default: "", when: (a) => a.customize },
     ]);
-    let include = existing?.include ?? [...DEFAULT_INCLUDE];
-    let exclude = existing?.exclude ?? [...DEFAULT_EXCLUDE];
+    let include = existing?.include ?? [...(profile?.include ?? DEFAULT_INCLUDE)];
+    let exclude = existing?.exclude ?? [...(profile?.exclude ?? DEFAULT_EXCLUDE)];
     if (answers.customize) {
-      const inc = (answers.includeExtra ?? "").split(",").map((s) => s.trim()).filter(Boolean);
-      const exc = (answers.excludeExtra ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+      const inc = splitCommaList(answers.includeExtra ?? "");
+      const exc = splitCommaList(answers.excludeExtra ?? "");
       if (inc.length) include = [...new Set([...include, ...inc])];
       if (exc.length) exclude = [...new Set([...exclude, ...exc])];
     }
-    const config: AgVaultConfig = { repoUrl, include, exclude, branch: existing?.branch ?? "main" };
+    const encryption = await promptEncryption(existing?.encryption);
+    const sameVault = repoUrl === existing?.repoUrl;
+    const config = buildInitConfig(cwd, existing, {
+      repoUrl,
+      backend: backend ?? (sameVault ? existing!.backend : undefined),
+      include,
+      exclude,
+      branch: existing?.branch ?? profile?.branch ?? "main",
+      profile: resolved ? resolved.name : sameVault ? existing!.profile : undefined,
+      encryption,
+    });
     saveConfig(cwd, config);
-    saveGlobalDefault(repoUrl);
+    if (!resolved) saveGlobalDefault(repoUrl, config.backend);
     out.success("Vault initialized.");
     out.dim("Config: " + getConfigPath(cwd));
+    await showRepoVisibility(repoUrl, config.allowPublicRepo);
+    await promptTemplate(cwd);
     return;
   }
 
@@ -95,7 +486,7 @@ export async function runInit(cwd: string): Promise<void> {
     {
       type: "input",
       name: "repoUrl",
-      message: "GitHub vault repo URL (HTTPS or SSH). Leave empty to create a new repo:",
+      message: "Vault repo URL (GitHub or any git remote, HTTPS or SSH), or a local path. Leave empty to create a new GitHub repo:",
       default: existing?.repoUrl ?? "",
     },
     {
@@ -161,21 +552,29 @@ export async function runInit(cwd: string): Promise<void> {
   let exclude = existing?.exclude ?? [...DEFAULT_EXCLUDE];
 
   if (answers.customize) {
-    const inc = (answers.includeExtra ?? "").split(",").map((s) => s.trim()).filter(Boolean);
-    const exc = (answers.excludeExtra ?? "").split(",").map((s) => s.trim()).filter(Boolean);
+    const inc = splitCommaList(answers.includeExtra ?? "");
+    const exc = splitCommaList(answers.excludeExtra ?? "");
     if (inc.length) include = [...new Set([...include, ...inc])];
     if (exc.length) exclude = [...new Set([...exclude, ...exc])];
   }
 
-  const config: AgVaultConfig = {
+  if (isLocalRepoUrl(repoUrl) && !repoUrl.startsWith("file://")) repoUrl = toLocalPath(repoUrl);
+  const backend = await promptBackend(repoUrl, existing?.backend);
+  const encryption = await promptEncryption(existing?.encryption);
+  const config = buildInitConfig(cwd, existing, {
     repoUrl,
+    backend,
     include,
     exclude,
     branch: existing?.branch ?? "main",
-  };
+    profile: repoUrl === existing?.repoUrl ? existing!.profile : undefined,
+    encryption,
+  });
 
   saveConfig(cwd, config);
-  saveGlobalDefault(repoUrl);
+  saveGlobalDefault(repoUrl, backend);
   out.success("Vault initialized.");
   out.dim("Config: " + getConfigPath(cwd));
+  await showRepoVisibility(repoUrl, config.allowPublicRepo);
+  await promptTemplate(cwd);
 }
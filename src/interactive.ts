@@ -0,0 +1,9 @@
+/** True when prompts can be answered: stdin and stdout are terminals (not CI, a pipe or an agent's subprocess). */
+export function isInteractive(): boolean {
+  return Boolean(process.stdin.isTTY && process.stdout.isTTY);
+}
+
+/** Fail fast instead of waiting on a prompt nobody can answer. hint says how to run the command without prompts. */
+export function requireInteractive(hint: string): void {
+  if (!isInteractive()) throw new Error(`This command would prompt, but there is no interactive terminal. ${hint}`);
+}
@@ -0,0 +1,60 @@
+import { spawnSync } from "child_process";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+/** Labels used in conflict markers written by a failed three-way merge. */
+export const LOCAL_LABEL = "local";
+export const VAULT_LABEL = "vault";
+
+/** Suffix of the copy written next to a binary file that changed on both sides. */
+export const CONFLICT_COPY_SUFFIX = ".vault-conflict";
+
+export interface MergeResult {
+  content: Buffer;
+  /** True when the merge left conflict markers in content. */
+  conflicted: boolean;
+}
+
+/** Heuristic used by git: a NUL byte in the first 8000 bytes means binary. */
+export function isBinary(data: Buffer): boolean {
+  return data.subarray(0, 8000).includes(0);
+}
+
+/** True when a file still contains the markers written by a failed merge (conflict not resolved yet). */
+export function hasConflictMarkers(data: Buffer): boolean {
+  const text = data.toString("utf-8");
+  return (
+    new RegExp(`^<{7} ${LOCAL_LABEL}\r?$`, "m").test(text) && new RegExp(`^>{7} ${VAULT_LABEL}\r?$`, "m").test(text)
+  );
+}
+
+/**
+ * Three-way merge of text content using `git merge-file`.
+ * base is the version both sides started from (empty when unknown, e.g. added on both sides).
+ * On conflict, content holds the merged text with <<<<<<< local / >>>>>>> vault markers.
+ */
+export function mergeText(local: Buffer, base: Buffer | null, vault: Buffer): MergeResult {
+  const dir = mkdtempSync(join(tmpdir(), "agvault-merge-"));
+  try {
+    const localPath = join(dir, "local");
+    const basePath = join(dir, "base");
+    const vaultPath = join(dir, "vault");
+    writeFileSync(localPath, local);
+    writeFileSync(basePath, base ?? Buffer.alloc(0));
+    writeFileSync(vaultPath, vault);
+    const r = spawnSync(
+      "git",
+      ["merge-file", "-p", "-L", LOCAL_LABEL, "-L", "base", "-L", VAULT_LABEL, localPath, basePath, vaultPath],
+      { stdio: "pipe", maxBuffer: 64 * 1024 * 1024 }
+    );
+    // Exit status is the number of conflicts; negative (>127) means merge-file itself failed.
+    if (r.error || r.status === null || r.status > 127) {
+      const msg = r.error?.message ?? (r.stderr ?? Buffer.alloc(0)).toString().trim();
+      throw new Error(`git merge-file failed: ${msg || "unknown error"}`);
+    }
+    return { content: r.stdout, conflicted: r.status > 0 };
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
@@ -84,3 +84,15 @@ export function printTable(head: string[], rows: string[][]): void {
   for (const row of rows) table.push(row);
   console.log(table.toString());
 }
+
+/** Print a unified diff with colored +/- lines. When quiet, does nothing. */
+export function printDiff(diff: string): void {
+  if (quiet || !diff) return;
+  for (const line of diff.replace(/\n$/, "").split("\n")) {
+    if (line.startsWith("+++") || line.startsWith("---")) console.log(chalk.bold(line));
+    else if (line.startsWith("@@")) console.log(chalk.cyan(line));
+    else if (line.startsWith("+")) console.log(chalk.green(line));
+    else if (line.startsWith("-")) console.log(chalk.red(line));
+    else console.log(line);
+  }
+}
@@ -0,0 +1,105 @@
+import { readFileSync } from "fs";
+import { join } from "path";
+import { glob } from "glob";
+import { isBinary } from "./merge.js";
+
+/** Lines containing this marker are never reported (e.g. a documented example key). */
+export const ALLOW_MARKER = "agvault:allow-secret";
+
+export interface SecretFinding {
+  /** Workspace-relative path. */
+  path: string;
+  /** 1-based line number. */
+  line: number;
+  /** Detector that matched, e.g. "aws-access-key-id". */
+  rule: string;
+  /** Matched text. */
+  match: string;
+}
+
+interface Detector {
+  rule: string;
+  pattern: RegExp;
+}
+
+const DETECTORS: Detector[] = [
+  { rule: "private-key", pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g },
+  { rule: "aws-access-key-id", pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  { rule: "aws-secret-access-key", pattern: /aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?[A-Za-z0-9/+]{40}(?![A-Za-z0-9/+])/gi },
+  { rule: "github-token", pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})\b/g },
+  { rule: "openai-api-key", pattern: /\bsk-(?:proj-|svcacct-|admin-|ant-)?[A-Za-z0-9_-]{32,}/g },
+  { rule: "slack-token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+];
+
+/** Candidates for the entropy check: long runs of base64/URL-safe characters. */
+const TOKEN_PATTERN = /[A-Za-z0-9+/_=-]{32,}/g;
+/** Bits per character above which a token is treated as random (hex digests stay below 4). */
+const ENTROPY_THRESHOLD = 4.5;
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of value) counts.set(ch, (counts.get(ch) ?? 0) + 1);
+  let entropy = 0;
+  for (const n of counts.values()) {
+    const p = n / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function isHighEntropyToken(token: string): boolean {
+  // Paths and prose-like identifiers: require a mix of letters and digits
+  if (!/[0-9]/.test(token) || !/[A-Za-z]/.test(token) || token.includes("//")) return false;
+  return shannonEntropy(token) >= ENTROPY_THRESHOLD;
+}
+
+/** Findings in one file's content (binary content is not scanned). */
+export function scanContent(path: string, data: Buffer): SecretFinding[] {
+  if (isBinary(data)) return [];
+  const findings: SecretFinding[] = [];
+  data
+    .toString("utf-8")
+    .split(/\r?\n/)
+    .forEach((text, i) => {
+      if (text.includes(ALLOW_MARKER)) return;
+      const matched: string[] = [];
+      for (const { rule, pattern } of DETECTORS) {
+        for (const m of text.matchAll(pattern)) {
+          findings.push({ path, line: i + 1, rule, match: m[0] });
+          matched.push(m[0]);
+        }
+      }
+      for (const m of text.matchAll(TOKEN_PATTERN)) {
+        if (matched.some((s) => s.includes(m[0]) || m[0].includes(s)) || !isHighEntropyToken(m[0])) continue;
+        findings.push({ path, line: i + 1, rule: "high-entropy-string", match: m[0] });
+      }
+    });
+  return findings;
+}
+
+/**
+ * Scan project files (workspace-relative paths) for secrets. allowlist entries are path globs (the file is skipped)
+ * or exact secret values (that value is not reported).
+ */
+export async function scanFiles(cwd: string, paths: string[], allowlist: string[] = []): Promise<SecretFinding[]> {
+  const allowedFiles = new Set(allowlist.length > 0 ? await glob(allowlist, { cwd, dot: true, nodir: true, posix: true }) : []);
+  const allowedValues = new Set(allowlist);
+  const findings: SecretFinding[] = [];
+  for (const rel of paths) {
+    if (allowedFiles.has(rel)) continue;
+    let data: Buffer;
+    try {
+      data = readFileSync(join(cwd, rel));
+    } catch {
+      continue;
+    }
+    findings.push(...scanContent(rel, data).filter((f) => !allowedValues.has(f.match)));
+  }
+  return findings;
+}
+
+/** Shorten a matched secret for display so the error message does not repeat it in full. */
+export function redact(match: string): string {
+  if (match.startsWith("-----")) return match;
+  return match.length <= 8 ? "****" : `${match.slice(0, 4)}…${match.slice(-2)}`;
+}
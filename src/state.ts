@@ -0,0 +1,190 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { CONFIG_DIR, DEFAULT_VAULT } from "./config.js";
+
+/**
+ * Base snapshots: the content of each workspace file as of the last pull/store/sync.
+ * Sync uses them as the common ancestor to three-way merge files changed on both sides.
+ * They live in .agvault/base (never in the vault and never in the project's own git repo).
+ * State of the project's other vaults lives in .agvault/vaults/<name>/{state.json,base}; every function takes the vault's name.
+ */
+export const BASE_DIR = ".agvault/base";
+
+/** Folder under .agvault holding the sync state of each additional vault (config "vaults"). */
+const VAULTS_STATE_DIR = "vaults";
+
+/** Sync-state manifest: vault commit and per-file content hashes at the last successful pull/store/sync. */
+export const STATE_FILE = "state.json";
+
+/** Entries written to .agvault/.gitignore so local sync state is never committed to the project repo. */
+const IGNORED_STATE = ["base/", STATE_FILE, VAULTS_STATE_DIR + "/"];
+
+export interface SyncState {
+  /** Vault (config repoUrl) and workspace the manifest describes; missing in manifests written before they were recorded. */
+  repoUrl?: string;
+  workspace?: string;
+  /** Vault commit SHA the workspace matched at the last successful sync (null when unknown). */
+  vaultCommit: string | null;
+  /** ISO timestamp of the last successful sync. */
+  syncedAt: string;
+  /** Workspace-relative path → sha256 of the file content. */
+  files: Record<string, string>;
+  /** Files pulled from shared layers (not part of the workspace): path → layer and content hash as pulled. */
+  shared?: Record<string, SharedFile>;
+}
+
+export interface SharedFile {
+  layer: string;
+  hash: string;
+}
+
+/** The vault and workspace a sync reads and writes (see SyncState). */
+export interface SyncLocation {
+  repoUrl: string;
+  workspace: string;
+}
+
+/** True when the manifest was recorded for another vault or workspace (e.g. after 'config set workspace'). */
+export function isOtherLocation(state: SyncState, location: SyncLocation): boolean {
+  return (
+    (state.repoUrl !== undefined && state.repoUrl !== location.repoUrl) ||
+    (state.workspace !== undefined && state.workspace !== location.workspace)
+  );
+}
+
+/** Delete the sync state of a vault removed from the config (its files stay in the project). */
+export function removeVaultState(cwd: string, vault: string): void {
+  if (vault === DEFAULT_VAULT) return;
+  rmSync(join(cwd, CONFIG_DIR, VAULTS_STATE_DIR, vault), { recursive: true, force: true });
+}
+
+/** Folder with state.json and base/ of a vault (DEFAULT_VAULT for the top-level one). */
+function getStateDir(cwd: string, vault: string): string {
+  return vault === DEFAULT_VAULT ? join(cwd, CONFIG_DIR) : join(cwd, CONFIG_DIR, VAULTS_STATE_DIR, vault);
+}
+
+function getBaseRoot(cwd: string, vault: string): string {
+  return join(getStateDir(cwd, vault), "base");
+}
+
+function getBasePath(cwd: string, vault: string, relativePath: string): string {
+  return join(getBaseRoot(cwd, vault), relativePath);
+}
+
+export function getStatePath(cwd: string, vault: string): string {
+  return join(getStateDir(cwd, vault), STATE_FILE);
+}
+
+/** Content hash used in the manifest (hex sha256). */
+export function hashContent(data: Buffer): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/** Keep sync state out of the project's git repo (config.json stays committable). */
+function ensureStateIgnored(cwd: string): void {
+  const path = join(cwd, CONFIG_DIR, ".gitignore");
+  const existing = existsSync(path) ? readFileSync(path, "utf-8") : "";
+  const lines = existing.split(/\r?\n/).filter(Boolean);
+  const missing = IGNORED_STATE.filter((l) => !lines.includes(l));
+  if (missing.length === 0) return;
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, [...lines, ...missing].join("\n") + "\n", "utf-8");
+}
+
+function writeState(cwd: string, vault: string, state: SyncState): void {
+  const path = getStatePath(cwd, vault);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, JSON.stringify(state, null, 2), "utf-8");
+}
+
+/** Drop files from the manifest and base snapshots (e.g. after `agvault remove`, so a later pull does not prune them). */
+export function forgetFiles(cwd: string, vault: string, relativePaths: string[]): void {
+  const state = loadState(cwd, vault);
+  if (!state) return;
+  for (const rel of relativePaths) {
+    delete state.files[rel];
+    rmSync(getBasePath(cwd, vault, rel), { force: true });
+  }
+  writeState(cwd, vault, state);
+}
+
+/**
+ * Load .agvault/state.json. Returns null when the project has never been synced
+ * or the manifest is unreadable (it is rebuilt on the next successful pull/store/sync).
+ */
+export function loadState(cwd: string, vault: string): SyncState | null {
+  const path = getStatePath(cwd, vault);
+  if (!existsSync(path)) return null;
+  try {
+    const parsed = JSON.parse(readFileSync(path, "utf-8")) as Partial<SyncState>;
+    return {
+      ...(parsed.repoUrl ? { repoUrl: parsed.repoUrl } : {}),
+      ...(parsed.workspace ? { workspace: parsed.workspace } : {}),
+      vaultCommit: parsed.vaultCommit ?? null,
+      syncedAt: parsed.syncedAt ?? "",
+      files: parsed.files ?? {},
+      ...(parsed.shared ? { shared: parsed.shared } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Base content of a workspace file, or null when the file was not present at the last sync. */
+export function readBase(cwd: string, vault: string, relativePath: string): Buffer | null {
+  const path = getBasePath(cwd, vault, relativePath);
+  if (!existsSync(path)) return null;
+  return readFileSync(path);
+}
+
+/**
+ * Record a successful sync of location: write state.json and base snapshots for the given workspace files.
+ * With replace, entries not in the map are dropped (full pull/store/sync);
+ * otherwise only the given files are updated (e.g. pull --file) and the recorded vault commit is kept.
+ * A manifest of another location is replaced either way; its shared files are kept unless the vault changed.
+ */
+export function recordSync(
+  cwd: string,
+  vault: string,
+  location: SyncLocation,
+  vaultCommit: string | null,
+  entries: Map<string, Buffer>,
+  opts?: { replace?: boolean }
+): void {
+  ensureStateIgnored(cwd);
+  const existing = loadState(cwd, vault);
+  const replace = opts?.replace || (existing !== null && isOtherLocation(existing, location));
+  const previous = replace ? null : existing;
+  const root = getBaseRoot(cwd, vault);
+  if (replace) rmSync(root, { recursive: true, force: true });
+  const otherVault = existing?.repoUrl !== undefined && existing.repoUrl !== location.repoUrl;
+
+  const files: Record<string, string> = { ...previous?.files };
+  for (const [rel, data] of entries) {
+    const dest = getBasePath(cwd, vault, rel);
+    mkdirSync(dirname(dest), { recursive: true });
+    writeFileSync(dest, data);
+    files[rel] = hashContent(data);
+  }
+
+  const state: SyncState = {
+    repoUrl: location.repoUrl,
+    workspace: location.workspace,
+    vaultCommit: previous ? previous.vaultCommit ?? vaultCommit : vaultCommit,
+    syncedAt: new Date().toISOString(),
+    files: Object.fromEntries(Object.entries(files).sort(([a], [b]) => a.localeCompare(b))),
+    ...(existing?.shared && !otherVault ? { shared: existing.shared } : {}),
+  };
+  writeState(cwd, vault, state);
+}
+
+/** Replace the shared-layer files recorded in state.json (workspace entries are kept). */
+export function recordShared(cwd: string, vault: string, shared: Record<string, SharedFile>): void {
+  ensureStateIgnored(cwd);
+  const state: SyncState = loadState(cwd, vault) ?? { vaultCommit: null, syncedAt: new Date().toISOString(), files: {} };
+  const sorted = Object.fromEntries(Object.entries(shared).sort(([a], [b]) => a.localeCompare(b)));
+  const { shared: _previous, ...rest } = state;
+  const next: SyncState = Object.keys(sorted).length > 0 ? { ...rest, shared: sorted } : rest;
+  writeState(cwd, vault, next);
+}
@@ -1,11 +1,51 @@
-import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync, cpSync, statSync, rmSync, mkdtempSync } from "fs";
+import { existsSync, readdirSync, readFileSync, writeFileSync, mkdirSync, statSync, rmSync, mkdtempSync } from "fs";
 import { tmpdir } from "os";
-import { join, relative, dirname, basename } from "path";
+import { join, relative, dirname, basename, sep } from "path";
 import { glob } from "glob";
-import { simpleGit } from "simple-git";
-import type { SimpleGit } from "simple-git";
-import { VAULT_DIR, loadConfig } from "./config.js";
-import { createGitHubRepoAndPush, ensureGhGitAuth, isGhAvailable, parseGitHubRepoUrl } from "./gh.js";
+import { minimatch } from "minimatch";
+import {
+  DEFAULT_VAULT,
+  VAULT_DIR,
+  getVaultNames,
+  loadConfig,
+  loadRawConfig,
+  saveConfig,
+  saveRawConfig,
+  type AgVaultConfig,
+} from "./config.js";
+import { assertProfileVault, loadGlobalConfig } from "./global-default.js";
+import { createBackend, type CloneOptions, type VaultBackend, type VaultHistory, type VaultLogEntry } from "./backend.js";
+import { CONFLICT_COPY_SUFFIX, hasConflictMarkers, isBinary, mergeText } from "./merge.js";
+import { unifiedDiff } from "./diff.js";
+import {
+  WORKSPACES_FILE,
+  createProjectId,
+  deriveWorkspaceName,
+  getProjectRemote,
+  isClaimedByOther,
+  loadWorkspaceRegistry,
+  normalizeRemote,
+  saveWorkspaceRegistry,
+  validateWorkspaceName,
+  type WorkspaceClaim,
+} from "./workspace.js";
+import { decrypt, encrypt, generateKey, getEncryptedKeyId, isEncrypted, loadKey, saveKey } from "./crypto.js";
+import {
+  forgetFiles,
+  hashContent,
+  isOtherLocation,
+  loadState,
+  readBase,
+  recordShared,
+  recordSync,
+  type SharedFile,
+  type SyncLocation,
+  type SyncState,
+} from "./state.js";
+import { ALLOW_MARKER, redact, scanFiles } from "./secrets.js";
+import { formatCommitMessage } from "./commit-message.js";
+
+export type { VaultLogEntry } from "./backend.js";
 
 export interface VaultFile {
   path: string;
@@ -25,99 +65,204 @@ export function clearVault(cwd: string): void {
   rmSync(vaultPath, { recursive: true });
 }
 
-function isRepoNotFoundError(err: unknown): boolean {
-  const msg = err instanceof Error ? err.message : String(err);
-  const lower = msg.toLowerCase();
-  return (
-    lower.includes("repository not found") ||
-    lower.includes("could not read from remote") ||
-    lower.includes("does not appear to be a git repository") ||
-    lower.includes("remote repository is empty") ||
-    lower.includes("failed to connect")
-  );
-}
-
-/** Create an empty vault repo in tempDir (git init, vault/.gitkeep, commit, remote). Used when remote doesn't exist yet. */
-async function createTempVaultRepo(tempDir: string, repoUrl: string, branch: string): Promise<void> {
-  const git = simpleGit(tempDir);
-  await git.init();
-  const vaultContentDir = join(tempDir, "vault");
-  mkdirSync(vaultContentDir, { recursive: true });
-  writeFileSync(join(vaultContentDir, ".gitkeep"), "", "utf-8");
-  await git.add(".");
-  await git.commit("agvault: initial vault");
-  await git.addRemote("origin", repoUrl);
-  await git.branch(["-M", branch]);
-}
+/**
+ * What an operation needs from the vault: this project's workspace at the latest commit (default),
+ * every workspace (list all, purge), this workspace with full history (log, restore), or the templates.
+ */
+export type VaultScope = "workspace" | "all" | "history" | "templates";
 
 export interface WithTempVaultOptions {
   onPhase?: (msg: string) => void;
+  /** Which of the project's vaults (a key of config "vaults"); default: the one of the top-level fields. */
+  vaultName?: string;
+  scope?: VaultScope;
+  /** Set by commands that push (store, sync, template save): a vault that does not exist yet starts out empty. */
+  create?: boolean;
+  /**
+   * Set by store and sync (add stores): settle the workspace name, i.e. save it in the config, claim it in
+   * workspaces.json and move legacy vault/<folder name> content (see resolveWorkspace). Other commands, dry runs
+   * included, only work out the name in memory.
+   */
+  claim?: boolean;
+}
+
+/** Subject line of the vault commit (-m); replaces the config's commitMessage template. */
+export interface CommitMessageOptions {
+  message?: string;
 }
 
 export interface WithTempVaultContext {
   onPhase?: (msg: string) => void;
+  /** This project's folder under vault/ (see resolveWorkspace). */
+  workspace: string;
+  /** The vault cloned (see WithTempVaultOptions): its settings and sync state are the ones to use. */
+  vaultName: string;
+  /** Key the vault's files are encrypted with (its encryption.keyId); workspace files stored as plaintext are refused while set. */
+  keyId?: string;
 }
 
 /**
- * Clone vault repo into a temp directory, run the callback, then delete the temp dir.
+ * Clone the vault into a temp directory through its backend, run the callback, then delete the temp dir.
  * No vault data is left on disk after the callback returns.
- * If remote doesn't exist, creates an empty vault structure in temp (for store/sync to push).
+ * If the remote doesn't exist and opts.create is set, creates an empty vault structure in temp (for store/sync to push);
+ * otherwise a remote that cannot be read is an error.
+ * Only what opts.scope needs is fetched: by default the latest commit of vault/<workspace>.
+ * With config cache: true, git vaults are fetched into a persistent mirror under ~/.agvault/cache instead
+ * and the temp dir is a worktree of it; the temp dir itself is still deleted.
  */
 export async function withTempVault<T>(
   cwd: string,
-  fn: (vaultPath: string, git: SimpleGit, ctx: WithTempVaultContext) => Promise<T>,
+  fn: (vault: VaultBackend, ctx: WithTempVaultContext) => Promise<T>,
   opts?: WithTempVaultOptions
 ): Promise<T> {
-  const config = loadConfig(cwd);
+  const vaultName = opts?.vaultName ?? DEFAULT_VAULT;
+  const config = loadConfig(cwd, vaultName);
   if (!config?.repoUrl) throw new Error("Not initialized. Run 'agvault init' first.");
-  const branch = config.branch || "main";
+  assertProfileVault(cwd, config.repoUrl);
+  const profileAuthor = config.profile ? loadGlobalConfig().profiles?.[config.profile]?.author : undefined;
+  const vault = createBackend(config, { author: config.author ?? profileAuthor, committer: config.committer });
   const tempDir = mkdtempSync(join(tmpdir(), "agvault-"));
-  const ctx: WithTempVaultContext = { onPhase: opts?.onPhase };
-
-  // Use gh for Git credentials when available so pull/sync don't prompt for username/password
-  if (parseGitHubRepoUrl(config.repoUrl) && isGhAvailable()) {
-    ensureGhGitAuth();
-  }
 
   try {
     opts?.onPhase?.("Cloning vault…");
-    try {
-      const git = simpleGit(cwd);
-      await git.clone(config.repoUrl, tempDir, ["--branch", branch]);
-    } catch {
-      // Remote empty or clone failed: create empty vault in temp
-      await createTempVaultRepo(tempDir, config.repoUrl, branch);
-    }
-
-    const git = simpleGit(tempDir);
-    return await fn(tempDir, git, ctx);
+    await vault.clone(tempDir, { ...getCloneOptions(config, opts?.scope ?? "workspace"), create: opts?.create });
+    const workspace = await resolveWorkspace(cwd, vaultName, vault, opts ?? {});
+    return await fn(vault, { onPhase: opts?.onPhase, workspace, vaultName, keyId: config.encryption?.keyId });
   } finally {
+    await vault.close();
     rmSync(tempDir, { recursive: true, force: true });
   }
 }
 
+function getCloneOptions(config: AgVaultConfig, scope: VaultScope): CloneOptions {
+  // Without a saved workspace name the files may still be in vault/<folder name> (see resolveWorkspace): fetch everything
+  const workspace = config.workspace;
+  const sparse =
+    scope === "templates"
+      ? [`vault/${TEMPLATES_DIR}`]
+      : scope !== "all" && workspace && !validateWorkspaceName(workspace)
+        ? [`vault/${workspace}`, ...(config.layers ?? []).map(getLayerFolder)]
+        : undefined;
+  return { sparse, history: scope === "history" };
+}
+
+/** Commit the working copy and push it. Returns false when there was nothing to push. */
+async function commitAndPush(vault: VaultBackend, message: string, ctx: WithTempVaultContext): Promise<boolean> {
+  if (!(await vault.commit(message))) return false;
+  ctx.onPhase?.("Pushing…");
+  await vault.push();
+  return true;
+}
+
+/**
+ * Commit and push a change to this project's workspace, described by the config's commitMessage template
+ * (or the -m message) and the files it adds, modifies and deletes. Returns false when there was nothing to push.
+ */
+async function commitWorkspace(
+  vault: VaultBackend,
+  cwd: string,
+  action: string,
+  ctx: WithTempVaultContext,
+  message?: string
+): Promise<boolean> {
+  const changes = await vault.changes();
+  const template = loadConfig(cwd, ctx.vaultName)?.commitMessage;
+  const text = formatCommitMessage({ action, workspace: ctx.workspace, changes, template, message });
+  return commitAndPush(vault, text, ctx);
+}
+
 /** Delete all projects from the vault (empty vault content, commit, push). Caller should confirm first. */
 export async function purgeVault(cwd: string, opts?: WithTempVaultOptions): Promise<void> {
-  await withTempVault(cwd, async (vaultPath, git, ctx) => {
-    const config = loadConfig(cwd)!;
-    const vaultContent = join(vaultPath, "vault");
-    if (!existsSync(vaultContent)) return;
-
-    const entries = readdirSync(vaultContent, { withFileTypes: true });
-    for (const e of entries) {
-      rmSync(join(vaultContent, e.name), { recursive: true });
+  await withTempVault(cwd, async (vault, ctx) => {
+    for (const rel of vault.list("vault")) vault.write(`vault/${rel}`, null);
+    vault.write("vault/.gitkeep", Buffer.alloc(0));
+    vault.write(WORKSPACES_FILE, null);
+    await commitAndPush(vault, "agvault: purge all projects", ctx);
+  }, { ...opts, scope: "all" });
+}
+
+/**
+ * This project's workspace name. A config without one (from before workspace names existed) gets one from
+ * deriveWorkspaceName; its files may still be in vault/<folder name>. With opts.claim (store, sync) the name is
+ * settled: that content is moved to the new name once (commit + push), the name is saved in the config and an
+ * unclaimed name is claimed in the temp clone, recorded by the next commit. Without it nothing is moved, saved or
+ * claimed: the name is where the project's files are now (the folder name until they are moved).
+ * A name claimed by another project in workspaces.json is refused either way (see isClaimedByOther); a claim without
+ * remote or projectId (made before projectId existed) belongs to the project that has synced it before.
+ */
+async function resolveWorkspace(
+  cwd: string,
+  vaultName: string,
+  vault: VaultBackend,
+  opts: WithTempVaultOptions
+): Promise<string> {
+  const config = loadConfig(cwd, vaultName)!;
+  const remote = getProjectRemote(cwd);
+  const registry = loadWorkspaceRegistry(vault);
+  let projectId = config.projectId;
+  if (!projectId && opts.claim) {
+    projectId = createProjectId();
+    saveRawConfig(cwd, { ...loadRawConfig(cwd), projectId });
+  }
+  const claim = (): WorkspaceClaim => ({
+    remote: remote ? normalizeRemote(remote) : null,
+    ...(projectId ? { project: projectId } : {}),
+    claimedAt: new Date().toISOString(),
+  });
+
+  let workspace = config.workspace;
+  if (!workspace) {
+    const legacy = basename(cwd) || "default";
+    const name = deriveWorkspaceName(cwd);
+    const canMove =
+      name !== legacy &&
+      vault.list(`vault/${legacy}`).length > 0 &&
+      vault.list(`vault/${name}`).length === 0 &&
+      !isClaimedByOther(registry[legacy], remote, projectId) &&
+      !isClaimedByOther(registry[name], remote, projectId);
+    if (!opts.claim) {
+      workspace = canMove ? legacy : name;
+    } else {
+      if (canMove) {
+        opts.onPhase?.(`Moving vault/${legacy} to vault/${name}…`);
+        moveVaultFolder(vault, `vault/${legacy}`, `vault/${name}`);
+        delete registry[legacy];
+        registry[name] = claim();
+        saveWorkspaceRegistry(vault, registry);
+        await vault.commit(`agvault: move workspace ${legacy} to ${name}`);
+        await vault.push();
+      }
+      workspace = name;
+      saveConfig(cwd, { ...loadConfig(cwd, vaultName)!, workspace }, vaultName);
     }
-    writeFileSync(join(vaultContent, ".gitkeep"), "", "utf-8");
-    await git.add(".");
-    await git.commit("agvault: purge all projects");
-    ctx.onPhase?.("Pushing…");
-    await git.push("origin", config.branch || "main");
-  }, opts);
+  }
+
+  const invalid = validateWorkspaceName(workspace);
+  if (invalid) throw new Error(invalid + " Fix \"workspace\" in .agvault/config.json.");
+  const existing = registry[workspace];
+  const adopt = existing?.remote === null && !existing.project && !remote && loadState(cwd, vaultName) !== null;
+  if (!adopt && isClaimedByOther(existing, remote, projectId)) {
+    throw new Error(
+      `Workspace "${workspace}" is already used by another project (${existing!.remote ?? "a project without a git remote"}). ` +
+        `Set a different "workspace" in .agvault/config.json.`
+    );
+  }
+  if ((!existing || adopt) && opts.claim) {
+    registry[workspace] = adopt ? { remote: null, project: projectId, claimedAt: existing!.claimedAt } : claim();
+    saveWorkspaceRegistry(vault, registry);
+  }
+  return workspace;
 }
 
-/** Workspace name for vault paths: basename of cwd (e.g. project folder name), fallback "default". */
-function getWorkspaceName(cwd: string): string {
-  return basename(cwd) || "default";
+/** Move a vault folder; encrypted files are re-encrypted for their new path (see encrypt). */
+function moveVaultFolder(vault: VaultBackend, from: string, to: string): void {
+  vault.move(from, to);
+  for (const rel of vault.list(to)) {
+    const stored = vault.read(`${to}/${rel}`)!;
+    if (!isEncrypted(stored)) continue;
+    const key = loadKey(getEncryptedKeyId(stored));
+    vault.write(`${to}/${rel}`, encrypt(decrypt(stored, key, `${from}/${rel}`), key, `${to}/${rel}`));
+  }
 }
 
 function getWorkspaceRelativePath(cwd: string, absolutePath: string): string {
@@ -125,9 +270,131 @@ function getWorkspaceRelativePath(cwd: string, absolutePath: string): string {
   return rel.replace(/\\/g, "/");
 }
 
-export async function collectFiles(cwd: string): Promise<VaultFile[]> {
-  const config = loadConfig(cwd);
+function readIfExists(path: string): Buffer | null {
+  return existsSync(path) ? readFileSync(path) : null;
+}
+
+function writeLocal(cwd: string, relativePath: string, data: Buffer): void {
+  const dest = join(cwd, relativePath);
+  mkdirSync(dirname(dest), { recursive: true });
+  writeFileSync(dest, data);
+}
+
+/** Delete a project file and the folders it leaves empty (up to the project root). */
+function removeLocal(cwd: string, relativePath: string): void {
+  rmSync(join(cwd, relativePath), { force: true });
+  for (let dir = dirname(join(cwd, relativePath)); dir.startsWith(cwd + sep); dir = dirname(dir)) {
+    if (!existsSync(dir) || readdirSync(dir).length > 0) break;
+    rmSync(dir, { recursive: true });
+  }
+}
+
+/** The vault and workspace this run syncs (recorded in state.json, see SyncState). */
+function getSyncLocation(cwd: string, ctx: WithTempVaultContext): SyncLocation {
+  return { repoUrl: loadConfig(cwd, ctx.vaultName)!.repoUrl, workspace: ctx.workspace };
+}
+
+/**
+ * The last-sync manifest of the vault and workspace this run syncs, or null when there is none. A manifest of
+ * another workspace or vault (the config changed since) says nothing about this one's files.
+ */
+function loadWorkspaceState(cwd: string, ctx: WithTempVaultContext): SyncState | null {
+  const state = loadState(cwd, ctx.vaultName);
+  return state && !isOtherLocation(state, getSyncLocation(cwd, ctx)) ? state : null;
+}
+
+/**
+ * Files deleted from the vault since the last sync whose local copy is unchanged since then (safe to delete locally).
+ * Files changed locally are kept, so the next store puts them back.
+ * Nothing is pruned unless the manifest was recorded for this vault and workspace, nor from a vault that clone had
+ * to start empty, or one whose history lacks the commit of the last sync (a different or rewritten repo): their
+ * missing files are not deletions.
+ */
+async function findPrunable(
+  cwd: string,
+  vault: VaultBackend,
+  ctx: WithTempVaultContext,
+  state: SyncState | null
+): Promise<string[]> {
+  if (!state || vault.fresh) return [];
+  const location = getSyncLocation(cwd, ctx);
+  if (state.repoUrl !== location.repoUrl || state.workspace !== location.workspace) return [];
+  const inVault = new Set(listVaultFilesForWorkspace(vault, ctx.workspace));
+  const prunable = Object.entries(state.files)
+    .filter(([rel, hash]) => {
+      if (inVault.has(rel)) return false;
+      const local = readIfExists(join(cwd, rel));
+      return local !== null && hashContent(local) === hash;
+    })
+    .map(([rel]) => rel);
+  if (prunable.length === 0 || (await vault.revision()) === null) return prunable;
+  return state.vaultCommit && (await vault.containsCommit(state.vaultCommit)) ? prunable : [];
+}
+
+/**
+ * Read a file from vault/<workspace> as plaintext (decrypting it when it was stored encrypted).
+ * Returns null when the file is not in the vault. With ctx.keyId set, a file stored as plaintext is refused.
+ */
+function readVaultFile(
+  vault: VaultBackend,
+  ctx: Pick<WithTempVaultContext, "workspace" | "keyId">,
+  relativePath: string
+): Buffer | null {
+  return readVaultPath(vault, `vault/${ctx.workspace}/${relativePath}`, ctx.keyId);
+}
+
+/** Plaintext of any vault file (path from the vault root), or null when it does not exist; see decodeVaultContent. */
+function readVaultPath(vault: VaultBackend, path: string, keyId?: string): Buffer | null {
+  const stored = vault.read(path);
+  return stored && decodeVaultContent(stored, path, keyId);
+}
+
+/**
+ * Plaintext of the content stored at a vault path (decrypted when it was stored encrypted). With keyId (the
+ * workspace is encrypted), plaintext content is refused: whoever hosts the vault could have put it there.
+ */
+function decodeVaultContent(stored: Buffer, path: string, keyId?: string): Buffer {
+  if (isEncrypted(stored)) return decrypt(stored, loadKey(getEncryptedKeyId(stored)), path);
+  if (!keyId) return stored;
+  throw new Error(
+    `${path} is not encrypted, but this vault's files are (key ${keyId}). It may have been replaced by someone with ` +
+      `access to the vault. If encryption was just turned on, run 'agvault store' to encrypt the workspace.`
+  );
+}
+
+/**
+ * Write plaintext into vault/<workspace>, encrypted with keyId (the vault config's encryption.keyId) when set.
+ * Files whose content is unchanged are left as they are (encryption uses a random IV, so rewriting would show a change).
+ */
+function writeVaultFile(vault: VaultBackend, keyId: string | undefined, workspace: string, relativePath: string, data: Buffer): void {
+  writeVaultPath(vault, keyId, `vault/${workspace}/${relativePath}`, data);
+}
+
+/** Write plaintext to any vault path (from the vault root); see writeVaultFile. */
+function writeVaultPath(vault: VaultBackend, keyId: string | undefined, dest: string, data: Buffer): void {
+  const stored = vault.read(dest);
+  if (stored) {
+    const upToDate = keyId
+      ? isEncrypted(stored) && getEncryptedKeyId(stored) === keyId && readVaultPath(vault, dest)!.equals(data)
+      : !isEncrypted(stored) && stored.equals(data);
+    if (upToDate) return;
+  }
+  vault.write(dest, keyId ? encrypt(data, loadKey(keyId), dest) : data);
+}
+
+/** Encryption key of a vault's files (undefined when they are stored as plaintext). */
+function getKeyId(cwd: string, vaultName: string): string | undefined {
+  return loadConfig(cwd, vaultName)?.encryption?.keyId;
+}
+
+/**
+ * Project files that belong to the workspace of a vault (default: the top-level one): its include patterns minus its
+ * exclude patterns and files pulled from its shared layers.
+ */
+export async function collectFiles(cwd: string, vaultName: string = DEFAULT_VAULT): Promise<VaultFile[]> {
+  const config = loadConfig(cwd, vaultName);
   if (!config) return [];
+  const shared = loadState(cwd, vaultName)?.shared ?? {};
 
   const results: VaultFile[] = [];
   const seen = new Set<string>();
@@ -136,16 +403,18 @@ export async function collectFiles(cwd: string): Promise<VaultFile[]> {
     const files = await glob(pattern, {
       cwd,
       nodir: true,
-      ignore: config.exclude,
+      ignore: [...config.exclude, `**/*${CONFLICT_COPY_SUFFIX}`],
       dot: true,
     });
     for (const f of files) {
       const abs = join(cwd, f);
       if (seen.has(abs)) continue;
       seen.add(abs);
+      const relativePath = getWorkspaceRelativePath(cwd, abs);
+      if (relativePath in shared) continue;
       try {
         if (statSync(abs).isFile()) {
-          results.push({ path: abs, relativePath: getWorkspaceRelativePath(cwd, abs) });
+          results.push({ path: abs, relativePath });
         }
       } catch {
         // skip inaccessible
@@ -156,125 +425,239 @@ export async function collectFiles(cwd: string): Promise<VaultFile[]> {
   return results;
 }
 
-export function copyToVault(files: VaultFile[], vaultPath: string, cwd: string): void {
-  const workspaceName = getWorkspaceName(cwd);
+/** A project file matched by the patterns of more than one vault. */
+export interface VaultOverlap {
+  path: string;
+  vaults: string[];
+}
+
+/**
+ * Files that more than one of the project's vaults would store. Each file must belong to one vault:
+ * otherwise store and sync push it to both and the vaults overwrite each other's version on pull.
+ */
+export async function findOverlaps(cwd: string): Promise<VaultOverlap[]> {
+  const names = getVaultNames(cwd);
+  if (names.length < 2) return [];
+  const owners = new Map<string, string[]>();
+  for (const name of names) {
+    for (const f of await collectFiles(cwd, name)) {
+      owners.set(f.relativePath, [...(owners.get(f.relativePath) ?? []), name]);
+    }
+  }
+  return [...owners]
+    .filter(([, vaults]) => vaults.length > 1)
+    .map(([path, vaults]) => ({ path, vaults }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Refuse to push while files belong to more than one vault (see findOverlaps). */
+export async function assertNoOverlaps(cwd: string): Promise<void> {
+  const overlaps = await findOverlaps(cwd);
+  if (overlaps.length === 0) return;
+  const shown = overlaps.slice(0, 10).map((o) => `  ${o.path} (${o.vaults.join(", ")})`);
+  if (overlaps.length > shown.length) shown.push(`  … and ${overlaps.length - shown.length} more`);
+  throw new Error(
+    `${overlaps.length} file(s) match the patterns of more than one vault:\n${shown.join("\n")}\n` +
+      "Exclude them from all but one vault: 'agvault config add-exclude <pattern>' for the default vault, 'agvault vault set <name> --exclude <patterns>' for another."
+  );
+}
+
+export function copyToVault(files: VaultFile[], vault: VaultBackend, keyId: string | undefined, workspace: string): void {
   for (const { path: src, relativePath } of files) {
-    const dest = join(vaultPath, "vault", workspaceName, relativePath);
-    const destDir = dirname(dest);
-    if (!existsSync(destDir)) mkdirSync(destDir, { recursive: true });
-    cpSync(src, dest, { force: true });
+    writeVaultFile(vault, keyId, workspace, relativePath, readFileSync(src));
   }
 }
 
+/** Workspace-relative paths in the vault that are not in the allowed set (what removeExcludedFromVault deletes). */
+function findExcludedInVault(vault: VaultBackend, workspace: string, allowedRelativePaths: Set<string>): string[] {
+  return listVaultFilesForWorkspace(vault, workspace).filter((rel) => !allowedRelativePaths.has(rel));
+}
+
 /**
  * Remove from the vault workspace any file that is not in the allowed set
- * (e.g. newly excluded by config). Removes empty directories so git sees deletions.
+ * (e.g. newly excluded by config).
  */
-function removeExcludedFromVault(
-  vaultPath: string,
-  cwd: string,
-  allowedRelativePaths: Set<string>
-): void {
-  const workspaceName = getWorkspaceName(cwd);
-  const workspaceRoot = join(vaultPath, "vault", workspaceName);
-  if (!existsSync(workspaceRoot)) return;
-
-  const toDelete: string[] = [];
-  const walk = (dir: string, prefix: string) => {
-    const entries = readdirSync(dir, { withFileTypes: true });
-    for (const e of entries) {
-      const full = join(dir, e.name);
-      const rel = prefix ? `${prefix}/${e.name}` : e.name;
-      if (e.isDirectory()) {
-        walk(full, rel);
-      } else {
-        if (!allowedRelativePaths.has(rel)) toDelete.push(full);
-      }
-    }
-  };
-  walk(workspaceRoot, "");
-  for (const f of toDelete) rmSync(f, { force: true });
-
-  const removeEmptyDirs = (dir: string): void => {
-    if (!existsSync(dir)) return;
-    const entries = readdirSync(dir, { withFileTypes: true });
-    for (const e of entries) {
-      const full = join(dir, e.name);
-      if (e.isDirectory()) removeEmptyDirs(full);
-    }
-    if (readdirSync(dir).length === 0) rmSync(dir, { recursive: true });
-  };
-  removeEmptyDirs(workspaceRoot);
-}
-
-export function copyFromVault(vaultPath: string, cwd: string, specificPaths?: string[]): number {
-  const workspaceName = getWorkspaceName(cwd);
-  const workspaceRoot = join(vaultPath, "vault", workspaceName);
-  if (!existsSync(workspaceRoot)) return 0;
-
-  let count = 0;
-  const walk = (dir: string, prefix: string) => {
-    const entries = readdirSync(dir, { withFileTypes: true });
-    for (const e of entries) {
-      const full = join(dir, e.name);
-      const rel = prefix ? `${prefix}/${e.name}` : e.name;
-      const vaultRel = `${workspaceName}/${rel}`;
-      if (e.isDirectory()) {
-        walk(full, rel);
-      } else {
-        if (specificPaths && specificPaths.length > 0) {
-          const match = specificPaths.some(
-            (p) => vaultRel === p || rel === p || rel.endsWith("/" + p) || p === e.name
-          );
-          if (!match) continue;
-        }
-        const dest = join(cwd, rel);
-        const destDir = dirname(dest);
-        if (!existsSync(destDir)) mkdirSync(destDir, { recursive: true });
-        writeFileSync(dest, readFileSync(full));
-        count++;
-      }
+function removeExcludedFromVault(vault: VaultBackend, workspace: string, allowedRelativePaths: Set<string>): void {
+  for (const rel of findExcludedInVault(vault, workspace, allowedRelativePaths)) {
+    vault.write(`vault/${workspace}/${rel}`, null);
+  }
+}
+
+/** True when a vault file (workspace-relative rel) is selected by pull --file paths. */
+function matchesSpecificPaths(workspaceName: string, rel: string, specificPaths?: string[]): boolean {
+  if (!specificPaths || specificPaths.length === 0) return true;
+  const vaultRel = `${workspaceName}/${rel}`;
+  const name = basename(rel);
+  return specificPaths.some((p) => vaultRel === p || rel === p || rel.endsWith("/" + p) || p === name);
+}
+
+/** True when collectFiles would pick a workspace-relative path: it matches an include pattern and no exclude pattern. */
+function matchesPatterns(config: AgVaultConfig, relativePath: string): boolean {
+  const matches = (pattern: string) => minimatch(relativePath, pattern.replace(/^\.\//, ""), { dot: true });
+  return config.include.some(matches) && !config.exclude.some(matches) && !relativePath.endsWith(CONFLICT_COPY_SUFFIX);
+}
+
+/**
+ * Files of vault/<workspace> that the vault's include/exclude patterns select. Pull and sync only write these to the
+ * project: a file pushed by a clone with other patterns (or excluded here since) stays out of it.
+ */
+function listPulledFiles(cwd: string, vault: VaultBackend, ctx: WithTempVaultContext): string[] {
+  const config = loadConfig(cwd, ctx.vaultName)!;
+  return listVaultFilesForWorkspace(vault, ctx.workspace).filter((rel) => matchesPatterns(config, rel));
+}
+
+/** Copy vault/workspace files (see listPulledFiles) into the project root. Returns the workspace-relative paths copied. */
+export function copyFromVault(vault: VaultBackend, cwd: string, ctx: WithTempVaultContext, specificPaths?: string[]): string[] {
+  const copied: string[] = [];
+  for (const rel of listPulledFiles(cwd, vault, ctx)) {
+    if (!matchesSpecificPaths(ctx.workspace, rel, specificPaths)) continue;
+    writeLocal(cwd, rel, readVaultFile(vault, ctx, rel)!);
+    copied.push(rel);
+  }
+  return copied;
+}
+
+/** Shared layers live under vault/_shared; workspace names cannot start with "_", so they never collide. */
+export const SHARED_DIR = "_shared";
+
+function getLayerFolder(layer: string): string {
+  return `vault/${SHARED_DIR}/${layer}`;
+}
+
+/** Layers from config.layers, lowest precedence first. */
+function getLayers(cwd: string, vaultName: string): string[] {
+  const layers = loadConfig(cwd, vaultName)?.layers ?? [];
+  for (const layer of layers) {
+    const invalid = validateWorkspaceName(layer);
+    if (invalid) throw new Error(invalid.replace("workspace name", "layer name") + ' Fix "layers" in .agvault/config.json.');
+  }
+  return layers;
+}
+
+/** What pulling the shared layers did (or would do) to the project. */
+export interface LayerResult {
+  /** Shared files written to the project: new, or updated in their layer and unchanged locally. */
+  applied: string[];
+  /** Shared files no longer in any layer (or now in the workspace) that were unchanged locally and deleted. */
+  removed: string[];
+  /** Shared files edited locally: kept as they are and never pushed unless asked (store/sync --shared). */
+  modified: string[];
+  /** Local edits pushed back to their layer (--shared). */
+  pushed: string[];
+}
+
+interface LayerPlan {
+  write: Map<string, Buffer>;
+  remove: string[];
+  modified: string[];
+  /** state.shared after the plan is applied. */
+  shared: Record<string, SharedFile>;
+}
+
+/**
+ * Reconcile the project with its shared layers. Precedence: workspace files, then later layers, then earlier ones.
+ * A shared file is only overwritten or deleted when it is unchanged since it was pulled; a project file that was
+ * never pulled from a layer is left alone (it stays a workspace file).
+ */
+function planLayers(cwd: string, vault: VaultBackend, ctx: WithTempVaultContext, prune: boolean): LayerPlan {
+  const previous = loadState(cwd, ctx.vaultName)?.shared ?? {};
+  const inWorkspace = new Set(listVaultFilesForWorkspace(vault, ctx.workspace));
+  const provided = new Map<string, { layer: string; data: Buffer }>();
+  for (const layer of getLayers(cwd, ctx.vaultName)) {
+    for (const rel of vault.list(getLayerFolder(layer))) {
+      if (inWorkspace.has(rel)) continue;
+      provided.set(rel, { layer, data: readVaultPath(vault, `${getLayerFolder(layer)}/${rel}`)! });
     }
-  };
-  walk(workspaceRoot, "");
-  return count;
-}
-
-export async function listVaultFiles(vaultPath: string): Promise<string[]> {
-  const vaultContent = join(vaultPath, "vault");
-  if (!existsSync(vaultContent)) return [];
-
-  const out: string[] = [];
-  const walk = (dir: string, prefix: string) => {
-    const entries = readdirSync(dir, { withFileTypes: true });
-    for (const e of entries) {
-      const rel = prefix ? `${prefix}/${e.name}` : e.name;
-      const full = join(dir, e.name);
-      if (e.isDirectory()) walk(full, rel);
-      else out.push(rel);
+  }
+
+  const plan: LayerPlan = { write: new Map(), remove: [], modified: [], shared: {} };
+  for (const [rel, { layer, data }] of provided) {
+    const local = readIfExists(join(cwd, rel));
+    const prev = previous[rel];
+    const entry = { layer, hash: hashContent(data) };
+    if (!local) {
+      plan.write.set(rel, data);
+      plan.shared[rel] = entry;
+    } else if (prev && hashContent(local) === prev.hash) {
+      if (!local.equals(data)) plan.write.set(rel, data);
+      plan.shared[rel] = entry;
+    } else if (prev) {
+      plan.modified.push(rel);
+      plan.shared[rel] = prev;
+    } else if (local.equals(data)) {
+      plan.shared[rel] = entry;
     }
-  };
-  walk(vaultContent, "");
-  return out.sort();
+  }
+  for (const [rel, prev] of Object.entries(previous)) {
+    if (provided.has(rel) || inWorkspace.has(rel)) continue;
+    const local = readIfExists(join(cwd, rel));
+    if (prune && local && hashContent(local) === prev.hash) plan.remove.push(rel);
+  }
+  return plan;
+}
+
+/** Apply planLayers to the project and record the shared files in state.json. */
+function applyLayers(cwd: string, vault: VaultBackend, ctx: WithTempVaultContext, prune: boolean): LayerResult {
+  const plan = planLayers(cwd, vault, ctx, prune);
+  for (const [rel, data] of plan.write) writeLocal(cwd, rel, data);
+  for (const rel of plan.remove) removeLocal(cwd, rel);
+  recordShared(cwd, ctx.vaultName, plan.shared);
+  return { applied: [...plan.write.keys()].sort(), removed: plan.remove.sort(), modified: plan.modified.sort(), pushed: [] };
+}
+
+/** Dry-run changes of applyLayers. */
+function planLayerChanges(cwd: string, vault: VaultBackend, ctx: WithTempVaultContext, prune: boolean): PlannedChange[] {
+  const plan = planLayers(cwd, vault, ctx, prune);
+  return [
+    ...[...plan.write].map(([rel, data]) => describeChange(rel, "project", readIfExists(join(cwd, rel)), data)),
+    ...plan.remove.map((rel) => describeChange(rel, "project", readIfExists(join(cwd, rel)), null)),
+  ];
+}
+
+/** Shared files of a vault (default: the top-level one) edited locally since they were pulled (not pushed by store or sync without --shared). */
+export function findModifiedShared(cwd: string, vaultName: string = DEFAULT_VAULT): string[] {
+  return Object.entries(loadState(cwd, vaultName)?.shared ?? {})
+    .filter(([rel, { hash }]) => {
+      const local = readIfExists(join(cwd, rel));
+      return local !== null && hashContent(local) !== hash;
+    })
+    .map(([rel]) => rel);
+}
+
+/**
+ * Write local edits of shared files back to their layer (store/sync --shared). Refuses when the layer changed
+ * the same file since it was pulled, so nobody's edit is overwritten. Returns the state entries to record after the push.
+ */
+function writeSharedEdits(cwd: string, vaultName: string, vault: VaultBackend): Record<string, SharedFile> {
+  const shared = loadState(cwd, vaultName)?.shared ?? {};
+  const edited = findModifiedShared(cwd, vaultName);
+  const changedInLayer = edited.filter((rel) => {
+    const current = readVaultPath(vault, `${getLayerFolder(shared[rel].layer)}/${rel}`);
+    return !current || hashContent(current) !== shared[rel].hash;
+  });
+  if (changedInLayer.length > 0) {
+    throw new Error(
+      `These shared files were changed in their layer since you pulled them, nothing was pushed:\n` +
+        changedInLayer.map((rel) => `  ${rel} (${shared[rel].layer})`).join("\n") +
+        `\nSave your edits elsewhere, delete the local files and run 'agvault pull' to get the new versions, then edit them again.`
+    );
+  }
+  const updated = { ...shared };
+  for (const rel of edited) {
+    const data = readFileSync(join(cwd, rel));
+    writeVaultPath(vault, getKeyId(cwd, vaultName), `${getLayerFolder(shared[rel].layer)}/${rel}`, data);
+    updated[rel] = { layer: shared[rel].layer, hash: hashContent(data) };
+  }
+  return updated;
+}
+
+export async function listVaultFiles(vault: VaultBackend): Promise<string[]> {
+  return vault.list("vault");
 }
 
 /** List files in the vault for a single workspace (paths relative to project root). */
-export function listVaultFilesForWorkspace(vaultPath: string, workspaceName: string): string[] {
-  const workspaceRoot = join(vaultPath, "vault", workspaceName);
-  if (!existsSync(workspaceRoot)) return [];
-
-  const out: string[] = [];
-  const walk = (dir: string, prefix: string) => {
-    const entries = readdirSync(dir, { withFileTypes: true });
-    for (const e of entries) {
-      const rel = prefix ? `${prefix}/${e.name}` : e.name;
-      const full = join(dir, e.name);
-      if (e.isDirectory()) walk(full, rel);
-      else out.push(rel);
-    }
-  };
-  walk(workspaceRoot, "");
-  return out.sort();
+export function listVaultFilesForWorkspace(vault: VaultBackend, workspaceName: string): string[] {
+  return vault.list(`vault/${workspaceName}`);
 }
 
 /** List files in the vault for the current project only (clone to temp, list workspace, delete temp). */
@@ -284,10 +667,7 @@ export async function listVaultFilesForProjectRemote(
 ): Promise<string[]> {
   return withTempVault(
     cwd,
-    (vaultPath, _git, _ctx) => {
-      const workspaceName = getWorkspaceName(cwd);
-      return Promise.resolve(listVaultFilesForWorkspace(vaultPath, workspaceName));
-    },
+    (vault, ctx) => Promise.resolve(listVaultFilesForWorkspace(vault, ctx.workspace)),
     opts
   );
 }
@@ -296,135 +676,677 @@ export async function listVaultFilesForProjectRemote(
 export async function removeFromVault(
   cwd: string,
   relativePaths: string[],
-  opts?: WithTempVaultOptions
+  opts?: WithTempVaultOptions & CommitMessageOptions
 ): Promise<void> {
   if (relativePaths.length === 0) return;
-  const config = loadConfig(cwd)!;
-  const workspaceName = getWorkspaceName(cwd);
-  await withTempVault(cwd, async (vaultPath, git, ctx) => {
-    const workspaceRoot = join(vaultPath, "vault", workspaceName);
-    if (!existsSync(workspaceRoot)) return;
+  await withTempVault(cwd, async (vault, ctx) => {
     for (const rel of relativePaths) {
-      const normalized = rel.replace(/\\/g, "/");
-      const full = join(workspaceRoot, normalized);
-      if (existsSync(full)) rmSync(full, { force: true });
-    }
-    const removeEmptyDirs = (dir: string): void => {
-      if (!existsSync(dir)) return;
-      const entries = readdirSync(dir, { withFileTypes: true });
-      for (const e of entries) {
-        const full = join(dir, e.name);
-        if (e.isDirectory()) removeEmptyDirs(full);
-      }
-      if (readdirSync(dir).length === 0) rmSync(dir, { recursive: true });
-    };
-    removeEmptyDirs(workspaceRoot);
-    const status = await git.status();
-    const hasChanges =
-      status.files.length > 0 || status.not_added.length > 0 || status.deleted.length > 0;
-    if (!hasChanges) return;
-    await git.add(".");
-    await git.commit("agvault: remove");
-    ctx.onPhase?.("Pushing…");
-    try {
-      await git.push("origin", config.branch || "main");
-    } catch (err) {
-      if (!isRepoNotFoundError(err)) throw err;
-      throw err;
+      vault.write(`vault/${ctx.workspace}/${rel.replace(/\\/g, "/")}`, null);
     }
+    await commitWorkspace(vault, cwd, "remove", ctx, opts?.message);
+    forgetFiles(cwd, ctx.vaultName, relativePaths.map((rel) => rel.replace(/\\/g, "/")));
   }, opts);
 }
 
-/** Pull from vault: clone to temp, copy vault/workspace files to project root, delete temp. Returns file count. */
+export interface PullResult {
+  pulled: number;
+  /** Local files deleted because they were removed from the vault (and unchanged locally since the last sync). */
+  pruned: string[];
+  /** Shared layer files (empty for pull --file). */
+  layers: LayerResult;
+}
+
+const NO_LAYER_CHANGES: LayerResult = { applied: [], removed: [], modified: [], pushed: [] };
+
+/**
+ * Pull from vault: clone to temp, copy vault/workspace files to project root, delete temp.
+ * Unless prune is false, a full pull also deletes local files that were removed from the vault (see findPrunable).
+ * A full pull then applies the shared layers under the workspace files (see planLayers).
+ */
 export async function pullFromVault(
   cwd: string,
   specificPaths?: string[],
-  opts?: WithTempVaultOptions
-): Promise<number> {
-  return withTempVault(cwd, async (vaultPath, _git, ctx) => {
+  opts?: WithTempVaultOptions & { prune?: boolean }
+): Promise<PullResult> {
+  return withTempVault(cwd, async (vault, ctx) => {
     ctx.onPhase?.("Copying files…");
-    return copyFromVault(vaultPath, cwd, specificPaths);
+    const copied = copyFromVault(vault, cwd, ctx, specificPaths);
+    const partial = specificPaths !== undefined && specificPaths.length > 0;
+    const pruned =
+      partial || opts?.prune === false ? [] : await findPrunable(cwd, vault, ctx, loadWorkspaceState(cwd, ctx));
+    for (const rel of pruned) removeLocal(cwd, rel);
+    await recordWorkspaceState(vault, cwd, ctx, readWorkspaceEntries(vault, cwd, ctx, partial ? copied : undefined), !partial);
+    const layers = partial ? NO_LAYER_CHANGES : applyLayers(cwd, vault, ctx, opts?.prune !== false);
+    return { pulled: copied.length, pruned, layers };
   }, opts);
 }
 
-/** Store to vault: clone to temp, copy project files into vault/workspace, commit, push, delete temp. */
-export async function storeToVault(cwd: string, opts?: WithTempVaultOptions): Promise<number> {
-  const files = await collectFiles(cwd);
-  return withTempVault(cwd, async (vaultPath, git, ctx) => {
-    const config = loadConfig(cwd)!;
+/** Findings listed in the error before it is cut short. */
+const MAX_SECRETS_SHOWN = 20;
+
+/**
+ * Refuse to push files that look like they contain secrets (keys, tokens, private keys, high-entropy strings).
+ * The vault config's allowSecrets lists accepted files (globs) and values; allowSecrets skips the scan.
+ */
+async function assertNoSecrets(cwd: string, vaultName: string, files: VaultFile[], allowSecrets?: boolean): Promise<void> {
+  if (allowSecrets) return;
+  const findings = await scanFiles(
+    cwd,
+    files.map((f) => f.relativePath),
+    loadConfig(cwd, vaultName)?.allowSecrets
+  );
+  if (findings.length === 0) return;
+  const lines = findings.slice(0, MAX_SECRETS_SHOWN).map((f) => `  ${f.path}:${f.line}  ${f.rule}  ${redact(f.match)}`);
+  if (findings.length > MAX_SECRETS_SHOWN) lines.push(`  …and ${findings.length - MAX_SECRETS_SHOWN} more`);
+  throw new Error(
+    `Possible secrets found, nothing was pushed:\n${lines.join("\n")}\n` +
+      `Remove them, add the file or the value to "allowSecrets" in .agvault/config.json, ` +
+      `add "${ALLOW_MARKER}" to the line, or pass --allow-secrets.`
+  );
+}
+
+export interface StoreResult {
+  stored: number;
+  /** Shared files whose local edits were pushed back to their layer (shared option). */
+  shared: string[];
+}
+
+/** Local edits of shared files as VaultFiles (for the secret scan before they are pushed to their layer). */
+function sharedEditFiles(cwd: string, vaultName: string): VaultFile[] {
+  return findModifiedShared(cwd, vaultName).map((rel) => ({ path: join(cwd, rel), relativePath: rel }));
+}
+
+/**
+ * Store to vault: scan for secrets, clone to temp, copy project files into vault/workspace, commit, push, delete temp.
+ * Shared layer files are not part of the workspace; with shared, their local edits are pushed back to their layer.
+ */
+export async function storeToVault(
+  cwd: string,
+  opts?: WithTempVaultOptions & CommitMessageOptions & { allowSecrets?: boolean; shared?: boolean; action?: "store" | "add" }
+): Promise<StoreResult> {
+  const vaultName = opts?.vaultName ?? DEFAULT_VAULT;
+  await assertNoOverlaps(cwd);
+  const files = await collectFiles(cwd, vaultName);
+  const sharedEdits = opts?.shared ? sharedEditFiles(cwd, vaultName) : [];
+  await assertNoSecrets(cwd, vaultName, [...files, ...sharedEdits], opts?.allowSecrets);
+  return withTempVault(cwd, async (vault, ctx) => {
     ctx.onPhase?.("Copying files…");
-    copyToVault(files, vaultPath, cwd);
+    copyToVault(files, vault, getKeyId(cwd, vaultName), ctx.workspace);
     const allowed = new Set(files.map((f) => f.relativePath));
-    removeExcludedFromVault(vaultPath, cwd, allowed);
-    const status = await git.status();
-    const hasChanges =
-      status.files.length > 0 || status.not_added.length > 0 || status.deleted.length > 0;
-    if (!hasChanges) return files.length;
-
-    await git.add(".");
-    await git.commit("agvault: store");
-    ctx.onPhase?.("Pushing…");
-
-    try {
-      await git.push("origin", config.branch || "main");
-    } catch (err) {
-      if (!isRepoNotFoundError(err)) throw err;
-      if (isGhAvailable() && createGitHubRepoAndPush(config.repoUrl, vaultPath)) {
-        return files.length;
+    removeExcludedFromVault(vault, ctx.workspace, allowed);
+    const shared = opts?.shared ? writeSharedEdits(cwd, vaultName, vault) : null;
+    const entries = readWorkspaceEntries(vault, cwd, ctx);
+    await commitWorkspace(vault, cwd, opts?.action ?? "store", ctx, opts?.message);
+    await recordWorkspaceState(vault, cwd, ctx, entries);
+    if (shared) recordShared(cwd, vaultName, shared);
+    return { stored: files.length, shared: sharedEdits.map((f) => f.relativePath) };
+  }, { ...opts, create: true, claim: true });
+}
+
+/** Content of the working copy's workspace files (see listPulledFiles), or of only those; what recordWorkspaceState records. */
+function readWorkspaceEntries(vault: VaultBackend, cwd: string, ctx: WithTempVaultContext, only?: string[]): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  for (const rel of only ?? listPulledFiles(cwd, vault, ctx)) {
+    entries.set(rel, readVaultFile(vault, ctx, rel)!);
+  }
+  return entries;
+}
+
+/**
+ * Record workspace files in .agvault/state.json and base snapshots (after a successful push, or when nothing changed).
+ * Store and sync read entries before pushing: a push rebased onto another machine's commit brings in files this
+ * project does not have yet, and recording them would make the next sync take the local copies for newer ones.
+ * With replace false, just the given files are updated (partial pull).
+ */
+async function recordWorkspaceState(
+  vault: VaultBackend,
+  cwd: string,
+  ctx: WithTempVaultContext,
+  entries: Map<string, Buffer>,
+  replace = true
+): Promise<void> {
+  recordSync(cwd, ctx.vaultName, getSyncLocation(cwd, ctx), await vault.revision(), entries, { replace });
+}
+
+export interface SyncConflict {
+  /** Workspace-relative path of the conflicted file. */
+  path: string;
+  /** "markers": conflict markers written into the local file; "copy": vault version written to <path>.vault-conflict. */
+  kind: "markers" | "copy";
+}
+
+export interface SyncResult {
+  pulled: number;
+  stored: number;
+  /** Local files deleted because they were removed from the vault (and unchanged locally since the last sync). */
+  pruned: string[];
+  /** Files changed on both sides that were merged automatically. */
+  merged: string[];
+  /** Files changed on both sides that could not be merged; their vault version is left untouched. */
+  conflicts: SyncConflict[];
+  /** Shared layer files pulled, removed, edited locally or pushed back. */
+  layers: LayerResult;
+}
+
+/** How a workspace file differs between the project and the vault, relative to the last sync. */
+export type FileStatusKind =
+  | "in-sync"
+  | "added-locally"
+  | "modified-locally"
+  | "deleted-locally"
+  | "excluded-locally"
+  | "added-in-vault"
+  | "modified-in-vault"
+  | "deleted-in-vault"
+  | "conflict";
+
+export interface FileStatus {
+  /** Workspace-relative path. */
+  path: string;
+  status: FileStatusKind;
+}
+
+/**
+ * Classify every file in the project, the vault workspace and the last-sync manifest.
+ * Without a manifest entry, a file that differs on both sides is a conflict (no way to tell who changed it).
+ * A vault file the patterns do not select (see listPulledFiles) is excluded locally, whether or not it is on disk.
+ */
+function classifyWorkspace(
+  cwd: string,
+  vault: VaultBackend,
+  ctx: WithTempVaultContext,
+  localFiles: VaultFile[],
+  state: SyncState | null
+): FileStatus[] {
+  const collected = new Set(localFiles.map((f) => f.relativePath));
+  const pulled = new Set(listPulledFiles(cwd, vault, ctx));
+  const paths = new Set([
+    ...collected,
+    ...listVaultFilesForWorkspace(vault, ctx.workspace),
+    ...Object.keys(state?.files ?? {}),
+  ]);
+
+  const out: FileStatus[] = [];
+  for (const rel of [...paths].sort()) {
+    const local = collected.has(rel) ? readIfExists(join(cwd, rel)) : null;
+    const vaultData = readVaultFile(vault, ctx, rel);
+    const baseHash = state?.files[rel];
+    let status: FileStatusKind;
+    if (local && vaultData) {
+      if (local.equals(vaultData)) status = "in-sync";
+      else if (baseHash === hashContent(local)) status = "modified-in-vault";
+      else if (baseHash === hashContent(vaultData)) status = "modified-locally";
+      else status = "conflict";
+    } else if (local) {
+      status = baseHash ? "deleted-in-vault" : "added-locally";
+    } else if (vaultData) {
+      if (existsSync(join(cwd, rel)) || !pulled.has(rel)) status = "excluded-locally";
+      else status = baseHash ? "deleted-locally" : "added-in-vault";
+    } else {
+      continue;
+    }
+    out.push({ path: rel, status });
+  }
+  return out;
+}
+
+/** True when a vault file still has the content recorded at the last sync (nobody changed it in the vault since). */
+function isUnchangedInVault(vault: VaultBackend, ctx: WithTempVaultContext, relativePath: string, state: SyncState | null): boolean {
+  const vaultData = readVaultFile(vault, ctx, relativePath);
+  return vaultData !== null && state?.files[relativePath] === hashContent(vaultData);
+}
+
+/** Status: clone to temp, compare vault/workspace with collected project files and the last-sync manifest, delete temp. */
+export async function statusVault(cwd: string, opts?: WithTempVaultOptions): Promise<FileStatus[]> {
+  const files = await collectFiles(cwd, opts?.vaultName);
+  return withTempVault(
+    cwd,
+    (vault, ctx) => Promise.resolve(classifyWorkspace(cwd, vault, ctx, files, loadWorkspaceState(cwd, ctx))),
+    opts
+  );
+}
+
+/**
+ * Sync: clone to temp, reconcile each workspace file against .agvault/state.json from the last sync, push, delete temp.
+ * - Changed only in the vault: written to the project. Changed only locally: pushed.
+ * - Changed on both sides: text files are three-way merged; when the merge fails, the local file gets
+ *   conflict markers (binary files get a <path>.vault-conflict copy) and the vault version is kept until resolved.
+ * - Deleted in the vault: the local file is deleted when unchanged since the last sync (unless prune is false), else pushed back.
+ * - Deleted locally: deleted from the vault when it is unchanged there since the last sync, else pulled back.
+ * Shared layers are then applied like pull does; with shared, local edits of shared files are pushed back to their layer.
+ */
+export async function syncVault(
+  cwd: string,
+  opts?: WithTempVaultOptions & CommitMessageOptions & { prune?: boolean; allowSecrets?: boolean; shared?: boolean }
+): Promise<SyncResult> {
+  await assertNoOverlaps(cwd);
+  const localBefore = await collectFiles(cwd, opts?.vaultName);
+  const syncOpts: WithTempVaultOptions = {
+    vaultName: opts?.vaultName,
+    onPhase: (msg) => opts?.onPhase?.(msg === "Cloning vault…" ? "Syncing: cloning vault…" : msg),
+    create: true,
+    claim: true,
+  };
+  return withTempVault(cwd, async (vault, ctx) => {
+    ctx.onPhase?.("Merging files…");
+
+    const state = loadWorkspaceState(cwd, ctx);
+    const statuses = classifyWorkspace(cwd, vault, ctx, localBefore, state);
+    const result: SyncResult = { pulled: 0, stored: 0, pruned: [], merged: [], conflicts: [], layers: NO_LAYER_CHANGES };
+    if (opts?.prune !== false) {
+      result.pruned = await findPrunable(cwd, vault, ctx, state);
+      for (const rel of result.pruned) removeLocal(cwd, rel);
+    }
+    // Conflicted files are not pushed; their base becomes the vault version so the resolved local file wins next time
+    const held = new Set<string>();
+
+    for (const { path: rel, status } of statuses) {
+      // Not collected any more, so the push below deletes it from the vault
+      if (status === "deleted-locally" && isUnchangedInVault(vault, ctx, rel, state)) continue;
+      if (status === "added-in-vault" || status === "deleted-locally") {
+        writeLocal(cwd, rel, readVaultFile(vault, ctx, rel)!);
+        result.pulled++;
+        continue;
+      }
+      if (status !== "modified-locally" && status !== "modified-in-vault" && status !== "conflict") continue;
+
+      const local = readFileSync(join(cwd, rel));
+      const vaultData = readVaultFile(vault, ctx, rel)!;
+      const copyPath = join(cwd, rel + CONFLICT_COPY_SUFFIX);
+      if (hasConflictMarkers(local) || existsSync(copyPath)) {
+        // Previous conflict not resolved yet: never push markers or overwrite the vault copy
+        held.add(rel);
+        result.conflicts.push({ path: rel, kind: existsSync(copyPath) ? "copy" : "markers" });
+        continue;
+      }
+      if (status === "modified-in-vault") {
+        writeLocal(cwd, rel, vaultData);
+        result.pulled++;
+        continue;
       }
-      const repo = parseGitHubRepoUrl(config.repoUrl);
-      const hint = repo
-        ? `Create the repo at https://github.com/new?name=${repo.split("/")[1]} (private), then run agvault store again.`
-        : "Create a private repo at https://github.com/new and use its URL in agvault init, then run agvault store again.";
-      throw new Error(
-        `Remote repository not found. ${isGhAvailable() ? "Run \`gh auth login\` and try again, or " : "Install GitHub CLI (gh) and run \`gh auth login\` to create the repo automatically, or "}${hint}`
+      if (status === "modified-locally") continue;
+
+      const base = state && readBase(cwd, ctx.vaultName, rel);
+      if (!isBinary(local) && !isBinary(vaultData) && (!base || !isBinary(base))) {
+        const merge = mergeText(local, base, vaultData);
+        writeLocal(cwd, rel, merge.content);
+        if (!merge.conflicted) {
+          result.merged.push(rel);
+          continue;
+        }
+        held.add(rel);
+        result.conflicts.push({ path: rel, kind: "markers" });
+        continue;
+      }
+      writeFileSync(copyPath, vaultData);
+      held.add(rel);
+      result.conflicts.push({ path: rel, kind: "copy" });
+    }
+
+    result.layers = applyLayers(cwd, vault, ctx, opts?.prune !== false);
+
+    ctx.onPhase?.("Copying files…");
+    const files = (await collectFiles(cwd, ctx.vaultName)).filter((f) => !held.has(f.relativePath));
+    const sharedEdits = opts?.shared ? sharedEditFiles(cwd, ctx.vaultName) : [];
+    await assertNoSecrets(cwd, ctx.vaultName, [...files, ...sharedEdits], opts?.allowSecrets);
+    copyToVault(files, vault, getKeyId(cwd, ctx.vaultName), ctx.workspace);
+    const allowed = new Set([...files.map((f) => f.relativePath), ...held]);
+    removeExcludedFromVault(vault, ctx.workspace, allowed);
+    const shared = opts?.shared ? writeSharedEdits(cwd, ctx.vaultName, vault) : null;
+    const entries = readWorkspaceEntries(vault, cwd, ctx);
+    if (await commitWorkspace(vault, cwd, "sync", ctx, opts?.message)) result.stored = files.length;
+    await recordWorkspaceState(vault, cwd, ctx, entries);
+    if (shared) {
+      recordShared(cwd, ctx.vaultName, shared);
+      result.layers = {
+        ...result.layers,
+        modified: result.layers.modified.filter((rel) => !sharedEdits.some((f) => f.relativePath === rel)),
+        pushed: sharedEdits.map((f) => f.relativePath),
+      };
+    }
+    return result;
+  }, syncOpts);
+}
+
+/** A change a command would make, reported by --dry-run and `agvault diff` instead of being applied. */
+export interface PlannedChange {
+  /** Workspace-relative path. */
+  path: string;
+  /** Where the change lands: the project root or vault/<workspace>. */
+  target: "project" | "vault";
+  action: "create" | "overwrite" | "delete" | "conflict";
+  /** Unified diff from the current to the new content ("Binary files differ" for binary files). */
+  diff: string;
+}
+
+function describeChange(
+  path: string,
+  target: PlannedChange["target"],
+  before: Buffer | null,
+  after: Buffer | null,
+  action?: PlannedChange["action"]
+): PlannedChange {
+  const [fromSide, toSide] = target === "vault" ? ["vault", "local"] : ["local", "vault"];
+  const resolved = action ?? (!before ? "create" : !after ? "delete" : "overwrite");
+  const binary = (before && isBinary(before)) || (after && isBinary(after));
+  const diff = binary
+    ? `Binary files ${fromSide}/${path} and ${toSide}/${path} differ\n`
+    : unifiedDiff(
+        before?.toString("utf-8") ?? "",
+        after?.toString("utf-8") ?? "",
+        before ? `${fromSide}/${path}` : "/dev/null",
+        after ? `${toSide}/${path}` : "/dev/null"
       );
+  return { path, target, action: resolved, diff };
+}
+
+/** Changes storeToVault would push: copy collected files into vault/workspace and delete files no longer collected. */
+function planStoreChanges(vault: VaultBackend, ctx: WithTempVaultContext, files: VaultFile[]): PlannedChange[] {
+  const changes: PlannedChange[] = [];
+  for (const f of files) {
+    const local = readFileSync(f.path);
+    const vaultData = readVaultFile(vault, ctx, f.relativePath);
+    if (vaultData && vaultData.equals(local)) continue;
+    changes.push(describeChange(f.relativePath, "vault", vaultData, local));
+  }
+  const allowed = new Set(files.map((f) => f.relativePath));
+  for (const rel of findExcludedInVault(vault, ctx.workspace, allowed)) {
+    changes.push(describeChange(rel, "vault", readVaultFile(vault, ctx, rel), null));
+  }
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/** Dry run of store: clone to temp, compute what would be pushed, delete temp. Nothing is committed or pushed. */
+export async function planStore(cwd: string, opts?: WithTempVaultOptions): Promise<PlannedChange[]> {
+  const files = await collectFiles(cwd, opts?.vaultName);
+  return withTempVault(cwd, (vault, ctx) => Promise.resolve(planStoreChanges(vault, ctx, files)), { ...opts, create: true });
+}
+
+/** Dry run of pull: clone to temp, compute which project files would be created or overwritten, delete temp. */
+export async function planPull(
+  cwd: string,
+  specificPaths?: string[],
+  opts?: WithTempVaultOptions & { prune?: boolean }
+): Promise<PlannedChange[]> {
+  return withTempVault(cwd, async (vault, ctx) => {
+    const changes: PlannedChange[] = [];
+    for (const rel of listPulledFiles(cwd, vault, ctx)) {
+      if (!matchesSpecificPaths(ctx.workspace, rel, specificPaths)) continue;
+      const vaultData = readVaultFile(vault, ctx, rel)!;
+      const local = readIfExists(join(cwd, rel));
+      if (local && local.equals(vaultData)) continue;
+      changes.push(describeChange(rel, "project", local, vaultData));
     }
-    return files.length;
+    const partial = specificPaths !== undefined && specificPaths.length > 0;
+    if (!partial && opts?.prune !== false) {
+      for (const rel of await findPrunable(cwd, vault, ctx, loadWorkspaceState(cwd, ctx))) {
+        changes.push(describeChange(rel, "project", readIfExists(join(cwd, rel)), null));
+      }
+    }
+    if (!partial) changes.push(...planLayerChanges(cwd, vault, ctx, opts?.prune !== false));
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
   }, opts);
 }
 
-/** Sync: pull (clone→copy to root→delete temp), then store (clone→merge local→push→delete temp). */
-export async function syncVault(cwd: string, opts?: WithTempVaultOptions): Promise<{ pulled: number; stored: number }> {
-  const pullOpts: WithTempVaultOptions = {
-    onPhase: (msg) => opts?.onPhase?.(msg === "Cloning vault…" ? "Syncing: pulling…" : msg),
-  };
-  const pulled = await pullFromVault(cwd, undefined, pullOpts);
-  const files = await collectFiles(cwd);
-  const storeOpts: WithTempVaultOptions = {
-    onPhase: (msg) => opts?.onPhase?.(msg === "Cloning vault…" ? "Syncing: storing…" : msg),
-  };
-  const stored = await withTempVault(cwd, async (vaultPath, git, ctx) => {
-    const config = loadConfig(cwd)!;
-    ctx.onPhase?.("Copying files…");
-    copyToVault(files, vaultPath, cwd);
-    const allowed = new Set(files.map((f) => f.relativePath));
-    removeExcludedFromVault(vaultPath, cwd, allowed);
-    const status = await git.status();
-    const hasChanges =
-      status.files.length > 0 || status.not_added.length > 0 || status.deleted.length > 0;
-    if (!hasChanges) return 0;
-
-    await git.add(".");
-    await git.commit("agvault: sync");
-    ctx.onPhase?.("Pushing…");
-    try {
-      await git.push("origin", config.branch || "main");
-    } catch (err) {
-      if (!isRepoNotFoundError(err)) throw err;
-      if (isGhAvailable() && createGitHubRepoAndPush(config.repoUrl, vaultPath)) {
-        return files.length;
+/**
+ * Dry run of sync: clone to temp, compute the project and vault changes sync would make
+ * (including automatic merges and conflicts), delete temp. Nothing is written or pushed.
+ */
+export async function planSync(cwd: string, opts?: WithTempVaultOptions & { prune?: boolean }): Promise<PlannedChange[]> {
+  const files = await collectFiles(cwd, opts?.vaultName);
+  return withTempVault(cwd, async (vault, ctx) => {
+    const state = loadWorkspaceState(cwd, ctx);
+    const pruned = new Set(opts?.prune === false ? [] : await findPrunable(cwd, vault, ctx, state));
+    const changes: PlannedChange[] = [...pruned].map((rel) =>
+      describeChange(rel, "project", readIfExists(join(cwd, rel)), null)
+    );
+    for (const { path: rel, status } of classifyWorkspace(cwd, vault, ctx, files, state)) {
+      if (pruned.has(rel)) continue;
+      const local = readIfExists(join(cwd, rel));
+      const vaultData = readVaultFile(vault, ctx, rel);
+      switch (status) {
+        case "deleted-locally":
+          if (isUnchangedInVault(vault, ctx, rel, state)) changes.push(describeChange(rel, "vault", vaultData, null));
+          else changes.push(describeChange(rel, "project", local, vaultData));
+          break;
+        case "added-in-vault":
+        case "modified-in-vault":
+          changes.push(describeChange(rel, "project", local, vaultData));
+          break;
+        case "added-locally":
+        case "modified-locally":
+        case "deleted-in-vault":
+          changes.push(describeChange(rel, "vault", vaultData, local));
+          break;
+        case "excluded-locally":
+          changes.push(describeChange(rel, "vault", vaultData, null));
+          break;
+        case "conflict": {
+          if (!local || !vaultData || isBinary(local) || isBinary(vaultData) || hasConflictMarkers(local)) {
+            changes.push(describeChange(rel, "project", local, vaultData, "conflict"));
+            break;
+          }
+          const merge = mergeText(local, state && readBase(cwd, ctx.vaultName, rel), vaultData);
+          if (merge.conflicted) {
+            changes.push(describeChange(rel, "project", local, merge.content, "conflict"));
+            break;
+          }
+          changes.push(describeChange(rel, "project", local, merge.content));
+          changes.push(describeChange(rel, "vault", vaultData, merge.content));
+          break;
+        }
       }
-      throw err;
     }
+    changes.push(...planLayerChanges(cwd, vault, ctx, opts?.prune !== false));
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }, { ...opts, create: true });
+}
+
+/** Dry run of remove: clone to temp, list which of the given paths would be deleted from the vault, delete temp. */
+export async function planRemove(
+  cwd: string,
+  relativePaths: string[],
+  opts?: WithTempVaultOptions
+): Promise<PlannedChange[]> {
+  return withTempVault(cwd, (vault, ctx) => {
+    const changes: PlannedChange[] = [];
+    for (const rel of relativePaths) {
+      const normalized = rel.replace(/\\/g, "/");
+      const vaultData = readVaultFile(vault, ctx, normalized);
+      if (!vaultData) continue;
+      changes.push(describeChange(normalized, "vault", vaultData, null));
+    }
+    return Promise.resolve(changes);
+  }, opts);
+}
+
+/**
+ * Rekey: generate a new key, re-encrypt every file of this workspace with it (clone to temp, commit, push),
+ * then point the project config at the new key. Also turns on encryption for a plaintext workspace.
+ * Shared layer and template files encrypted with the old key are re-encrypted too, as the old key is being retired.
+ * The new key is saved under ~/.agvault/keys before anything is pushed; old key files are left in place.
+ */
+export async function rekeyVault(
+  cwd: string,
+  opts?: WithTempVaultOptions
+): Promise<{ keyId: string; keyPath: string; files: number }> {
+  const key = generateKey();
+  const keyPath = saveKey(key);
+  return withTempVault(cwd, async (vault, ctx) => {
+    const config = loadConfig(cwd, ctx.vaultName)!;
+    const oldKeyId = config.encryption?.keyId;
+    ctx.onPhase?.("Re-encrypting files…");
+    const workspaceFiles = listVaultFilesForWorkspace(vault, ctx.workspace).map((rel) => `vault/${ctx.workspace}/${rel}`);
+    const sharedFiles = [SHARED_DIR, TEMPLATES_DIR]
+      .flatMap((dir) => vault.list(`vault/${dir}`).map((rel) => `vault/${dir}/${rel}`))
+      .filter((path) => {
+        const stored = vault.read(path)!;
+        return oldKeyId !== undefined && isEncrypted(stored) && getEncryptedKeyId(stored) === oldKeyId;
+      });
+    // Decrypt everything with the old key(s) before writing anything, so a missing key fails before any change
+    const plaintexts = [
+      ...workspaceFiles.map((path) => [path, readVaultPath(vault, path, ctx.keyId)!] as const),
+      ...sharedFiles.map((path) => [path, readVaultPath(vault, path)!] as const),
+    ];
+    for (const [path, data] of plaintexts) vault.write(path, encrypt(data, key, path));
+    await commitWorkspace(vault, cwd, "rekey", ctx);
+    saveConfig(cwd, { ...config, encryption: { keyId: key.id } }, ctx.vaultName);
+    return { keyId: key.id, keyPath, files: plaintexts.length };
+  }, { ...opts, scope: "all" });
+}
+
+/** Vault path of a workspace-relative path (the whole workspace when empty). */
+function toVaultPathspec(workspace: string, relativePath?: string): string {
+  const normalized = (relativePath ?? "").replace(/\\/g, "/").replace(/^\/+|\/+$/g, "");
+  return `vault/${workspace}${normalized ? "/" + normalized : ""}`;
+}
+
+/** Log: clone to temp, list vault commits that touched this workspace (or one file/folder in it), delete temp. */
+export async function vaultLog(
+  cwd: string,
+  relativePath?: string,
+  opts?: WithTempVaultOptions & { limit?: number }
+): Promise<VaultLogEntry[]> {
+  return withTempVault(
+    cwd,
+    (vault, ctx) => requireHistory(vault).log(toVaultPathspec(ctx.workspace, relativePath), opts?.limit),
+    { ...opts, scope: "history" }
+  );
+}
+
+/** History of a git-backed vault; directory vaults keep none. */
+function requireHistory(vault: VaultBackend): VaultHistory {
+  if (!vault.history) {
+    throw new Error(`The ${vault.kind} backend keeps no history. Use a git remote or a local bare repo as the vault to get log and restore.`);
+  }
+  return vault.history;
+}
+
+/**
+ * Restore: clone to temp, write the version of a file (or every file under a folder) as of a vault commit or date
+ * into the project, delete temp. The restored files are local changes; store or sync pushes them.
+ */
+export async function restoreFromVault(
+  cwd: string,
+  relativePath: string,
+  at: string,
+  opts?: WithTempVaultOptions
+): Promise<{ commit: string; files: string[] }> {
+  return withTempVault(cwd, async (vault, ctx) => {
+    const history = requireHistory(vault);
+    const commit = await history.resolve(at);
+    const workspacePrefix = toVaultPathspec(ctx.workspace) + "/";
+    const vaultFiles = (await history.listAt(commit, toVaultPathspec(ctx.workspace, relativePath))).filter((l) =>
+      l.startsWith(workspacePrefix)
+    );
+    if (vaultFiles.length === 0) {
+      throw new Error(`${relativePath} is not in the vault at ${commit.slice(0, 7)}. Run 'agvault log ${relativePath}' to see its history.`);
+    }
+    ctx.onPhase?.("Restoring files…");
+    const files: string[] = [];
+    for (const file of vaultFiles) {
+      const stored = await history.readAt(commit, file);
+      const rel = file.slice(workspacePrefix.length);
+      writeLocal(cwd, rel, decodeVaultContent(stored, file, ctx.keyId));
+      files.push(rel);
+    }
+    return { commit, files };
+  }, { ...opts, scope: "history" });
+}
+
+/** Templates live under vault/_templates/<name>, next to the workspaces (see SHARED_DIR for the "_" prefix). */
+export const TEMPLATES_DIR = "_templates";
+
+function getTemplateFolder(name: string): string {
+  const invalid = validateWorkspaceName(name);
+  if (invalid) throw new Error(invalid.replace("workspace name", "template name"));
+  return `vault/${TEMPLATES_DIR}/${name}`;
+}
+
+export interface TemplateInfo {
+  name: string;
+  files: number;
+}
+
+/**
+ * Save a template: clone to temp, replace vault/_templates/<name> with the project's workspace files
+ * (encrypted like workspace files), commit, push, delete temp. Returns the number of files saved.
+ */
+export async function saveTemplate(
+  cwd: string,
+  name: string,
+  opts?: WithTempVaultOptions & { allowSecrets?: boolean }
+): Promise<number> {
+  const folder = getTemplateFolder(name);
+  const vaultName = opts?.vaultName ?? DEFAULT_VAULT;
+  const files = await collectFiles(cwd, vaultName);
+  if (files.length === 0) throw new Error("No files to save: nothing in this project matches the include patterns.");
+  await assertNoSecrets(cwd, vaultName, files, opts?.allowSecrets);
+  return withTempVault(cwd, async (vault, ctx) => {
+    ctx.onPhase?.("Copying files…");
+    const saved = new Set(files.map((f) => f.relativePath));
+    for (const rel of vault.list(folder)) if (!saved.has(rel)) vault.write(`${folder}/${rel}`, null);
+    const keyId = getKeyId(cwd, vaultName);
+    for (const f of files) writeVaultPath(vault, keyId, `${folder}/${f.relativePath}`, readFileSync(f.path));
+    await commitAndPush(vault, `agvault: save template ${name}`, ctx);
     return files.length;
-  }, storeOpts);
-  return { pulled, stored };
+  }, { ...opts, scope: "templates", create: true });
+}
+
+/**
+ * Apply a template: clone to temp, write the files of vault/_templates/<name> into the project, delete temp.
+ * Existing project files are kept unless force is set. Nothing is pushed; store or sync adds the files to the workspace.
+ */
+export async function applyTemplate(
+  cwd: string,
+  name: string,
+  opts?: WithTempVaultOptions & { force?: boolean }
+): Promise<{ written: string[]; skipped: string[] }> {
+  const folder = getTemplateFolder(name);
+  return withTempVault(cwd, async (vault, ctx) => {
+    const files = vault.list(folder);
+    if (files.length === 0) throw new Error(`Template "${name}" not found. Run 'agvault template list' to see the saved templates.`);
+    ctx.onPhase?.("Copying files…");
+    const written: string[] = [];
+    const skipped: string[] = [];
+    for (const rel of files) {
+      if (!opts?.force && existsSync(join(cwd, rel))) {
+        skipped.push(rel);
+        continue;
+      }
+      writeLocal(cwd, rel, readVaultPath(vault, `${folder}/${rel}`)!);
+      written.push(rel);
+    }
+    return { written, skipped };
+  }, { ...opts, scope: "templates" });
+}
+
+/** List templates: clone to temp, count the files of each vault/_templates/<name>, delete temp. */
+export async function listTemplates(cwd: string, opts?: WithTempVaultOptions): Promise<TemplateInfo[]> {
+  return withTempVault(cwd, (vault, _ctx) => {
+    const counts = new Map<string, number>();
+    for (const rel of vault.list(`vault/${TEMPLATES_DIR}`)) {
+      const name = rel.split("/")[0];
+      if (rel.includes("/")) counts.set(name, (counts.get(name) ?? 0) + 1);
+    }
+    return Promise.resolve([...counts].map(([name, files]) => ({ name, files })));
+  }, { ...opts, scope: "templates" });
+}
+
+/** Delete a template: clone to temp, remove vault/_templates/<name>, commit, push, delete temp. */
+export async function deleteTemplate(cwd: string, name: string, opts?: WithTempVaultOptions): Promise<void> {
+  const folder = getTemplateFolder(name);
+  await withTempVault(cwd, async (vault, ctx) => {
+    const files = vault.list(folder);
+    if (files.length === 0) throw new Error(`Template "${name}" not found. Run 'agvault template list' to see the saved templates.`);
+    for (const rel of files) vault.write(`${folder}/${rel}`, null);
+    await commitAndPush(vault, `agvault: delete template ${name}`, ctx);
+  }, { ...opts, scope: "templates" });
 }
 
 /** List files in the vault (clone to temp, list, delete temp). */
 export async function listVaultFilesRemote(cwd: string, opts?: WithTempVaultOptions): Promise<string[]> {
-  return withTempVault(cwd, async (vaultPath, _git, _ctx) => listVaultFiles(vaultPath), opts);
+  return withTempVault(cwd, async (vault, _ctx) => listVaultFiles(vault), { ...opts, scope: "all" });
 }
 
 /**
@@ -434,7 +1356,7 @@ export async function runReinit(cwd: string, opts?: WithTempVaultOptions): Promi
   const config = loadConfig(cwd);
   if (!config?.repoUrl) throw new Error("Not initialized. Run 'agvault init' first.");
   clearVault(cwd);
-  await withTempVault(cwd, async (_vaultPath, _git, _ctx) => {
+  await withTempVault(cwd, async (_vault, _ctx) => {
     // Just clone and delete to verify remote is reachable
   }, opts);
 }
@@ -0,0 +1,125 @@
+import { watch, readFileSync, type FSWatcher } from "fs";
+import { collectFiles, syncVault, type SyncResult } from "./vault.js";
+import { hashContent } from "./state.js";
+import { getVaultNames } from "./config.js";
+
+/** Changes under these folders never trigger a sync (agvault's own state, git internals, dependencies). */
+const IGNORED_DIRS = [".agvault", ".git", "node_modules"];
+
+export interface WatchOptions {
+  /** Quiet period after the last change before the batch is pushed. */
+  debounceMs: number;
+  /** How often to pull changes from other machines; 0 disables periodic pulls. */
+  pullIntervalMs: number;
+  prune?: boolean;
+  allowSecrets?: boolean;
+  /** Called when a sync starts ("change" after local edits, "interval" for a periodic pull). */
+  onSyncStart?: (reason: WatchSyncReason) => void;
+  /** Called after each vault of the project is synced. */
+  onSync: (result: SyncResult, reason: WatchSyncReason, vault: string) => void;
+  /** A failed sync is reported here and retried on the next change or interval; watching continues. */
+  onError: (err: unknown) => void;
+}
+
+export type WatchSyncReason = "change" | "interval";
+
+export interface VaultWatcher {
+  /** Stop watching and wait for a sync that is in progress to finish. */
+  stop(): Promise<void>;
+}
+
+function isIgnored(filename: string): boolean {
+  const first = filename.replace(/\\/g, "/").split("/")[0];
+  return IGNORED_DIRS.includes(first);
+}
+
+/** Content hash of every file collected for any vault, to tell real edits from events that changed nothing agvault stores. */
+async function snapshot(cwd: string): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+  for (const name of getVaultNames(cwd)) {
+    for (const f of await collectFiles(cwd, name)) {
+      try {
+        hashes.set(f.relativePath, hashContent(readFileSync(f.path)));
+      } catch {
+        // deleted in the meantime
+      }
+    }
+  }
+  return hashes;
+}
+
+function sameSnapshot(a: Map<string, string>, b: Map<string, string>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [rel, hash] of a) if (b.get(rel) !== hash) return false;
+  return true;
+}
+
+/**
+ * Watch the project and sync it with each of its vaults: edits to included files are batched until debounceMs passes
+ * without a change, then pushed in one sync commit; the vault is also pulled every pullIntervalMs.
+ * A batch runs a sync rather than a store, so edits pushed from other machines since the last round are merged
+ * instead of overwritten. Recursive fs.watch needs Node 20 on Linux (see engines in package.json).
+ * Syncs never overlap; a change that arrives during a sync is picked up right after it.
+ * The first sync runs immediately so the project starts from the vault's current state.
+ */
+export function watchVault(cwd: string, opts: WatchOptions): VaultWatcher {
+  let last = new Map<string, string>();
+  let running: Promise<void> = Promise.resolve();
+  /** Reasons already waiting in the queue; a second one would only repeat the same work. */
+  const queued = new Set<WatchSyncReason>();
+  let stopped = false;
+  let debounceTimer: NodeJS.Timeout | null = null;
+
+  const runSync = async (reason: WatchSyncReason): Promise<void> => {
+    try {
+      opts.onSyncStart?.(reason);
+      for (const name of getVaultNames(cwd)) {
+        const result = await syncVault(cwd, { vaultName: name, prune: opts.prune, allowSecrets: opts.allowSecrets });
+        opts.onSync(result, reason, name);
+      }
+    } catch (err) {
+      opts.onError(err);
+    } finally {
+      // Files written by the sync itself (pulls, merges) are the new baseline, not local edits
+      last = await snapshot(cwd);
+    }
+  };
+
+  const schedule = (reason: WatchSyncReason): void => {
+    if (stopped || queued.has(reason)) return;
+    queued.add(reason);
+    running = running
+      .then(async () => {
+        queued.delete(reason);
+        if (stopped) return;
+        if (reason === "change" && sameSnapshot(last, await snapshot(cwd))) return;
+        await runSync(reason);
+      })
+      .catch((err) => opts.onError(err));
+  };
+
+  const onChange = (filename: string | null): void => {
+    if (stopped || (filename && isIgnored(filename))) return;
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      schedule("change");
+    }, opts.debounceMs);
+  };
+
+  const watcher: FSWatcher = watch(cwd, { recursive: true }, (_event, filename) => onChange(filename));
+  watcher.on("error", (err) => opts.onError(err));
+  const pullTimer = opts.pullIntervalMs > 0 ? setInterval(() => schedule("interval"), opts.pullIntervalMs) : null;
+
+  running = runSync("interval").catch((err) => opts.onError(err));
+
+  return {
+    async stop() {
+      stopped = true;
+      watcher.close();
+      if (debounceTimer) clearTimeout(debounceTimer);
+      if (pullTimer) clearInterval(pullTimer);
+      await running;
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import { spawnSync } from "child_process";
+import { randomBytes } from "crypto";
+import { basename } from "path";
+import type { VaultBackend } from "./backend.js";
+
+/** Registry of claimed workspace names at the vault repo root (outside vault/, so it is never pulled into projects). */
+export const WORKSPACES_FILE = "workspaces.json";
+
+export interface WorkspaceClaim {
+  /** Normalized git remote of the project that owns the workspace (null when the project has no remote). */
+  remote: string | null;
+  /** projectId of the project that claimed the name (missing in claims made before projectId existed). */
+  project?: string;
+  /** ISO timestamp of the first store/sync that claimed the name. */
+  claimedAt: string;
+}
+
+export type WorkspaceRegistry = Record<string, WorkspaceClaim>;
+
+/** Workspace names are single path segments; names starting with "_" are reserved for agvault. */
+export function validateWorkspaceName(name: string): string | null {
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(name)) {
+    return `Invalid workspace name "${name}": use letters, digits, ".", "_" or "-", starting with a letter or digit.`;
+  }
+  return null;
+}
+
+/** origin URL of the project's own git repo, or null when it has none. */
+export function getProjectRemote(cwd: string): string | null {
+  try {
+    const r = spawnSync("git", ["config", "--get", "remote.origin.url"], { cwd, stdio: "pipe", encoding: "utf-8" });
+    const url = (r.stdout ?? "").trim();
+    return r.status === 0 && url ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize a git remote so HTTPS and SSH URLs of the same repo compare equal
+ * (e.g. "git@github.com:Owner/Repo.git" and "https://github.com/owner/repo" → "github.com/owner/repo").
+ */
+export function normalizeRemote(url: string): string {
+  return url
+    .trim()
+    .replace(/^[a-z+]+:\/\//i, "")
+    .replace(/^[^@/]+@/, "")
+    .replace(/^([^/:]+):(?!\d)/, "$1/")
+    .replace(/\.git\/?$/, "")
+    .replace(/\/+$/, "")
+    .toLowerCase();
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9._-]+/g, "-")
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, "");
+}
+
+/**
+ * Default workspace name for a project: "owner-repo" from its git remote,
+ * else the folder name plus a random suffix so two unrelated projects never share a name.
+ */
+export function deriveWorkspaceName(cwd: string): string {
+  const remote = getProjectRemote(cwd);
+  if (remote) {
+    const segments = normalizeRemote(remote).split("/").filter(Boolean);
+    const slug = slugify(segments.slice(-2).join("-"));
+    if (slug) return slug;
+  }
+  const base = slugify(basename(cwd)) || "project";
+  return `${base}-${randomBytes(3).toString("hex")}`;
+}
+
+/** Random id for config.projectId. */
+export function createProjectId(): string {
+  return randomBytes(8).toString("hex");
+}
+
+export function loadWorkspaceRegistry(vault: VaultBackend): WorkspaceRegistry {
+  return parseWorkspaceRegistry(vault.read(WORKSPACES_FILE)?.toString("utf-8") ?? null);
+}
+
+export function saveWorkspaceRegistry(vault: VaultBackend, registry: WorkspaceRegistry): void {
+  vault.write(WORKSPACES_FILE, Buffer.from(formatWorkspaceRegistry(registry), "utf-8"));
+}
+
+/** Registry from the content of workspaces.json; empty when there is none or it is unreadable. */
+export function parseWorkspaceRegistry(text: string | null): WorkspaceRegistry {
+  if (!text) return {};
+  try {
+    return JSON.parse(text) as WorkspaceRegistry;
+  } catch {
+    return {};
+  }
+}
+
+/** Content of workspaces.json for a registry (names sorted, so the file diffs cleanly). */
+export function formatWorkspaceRegistry(registry: WorkspaceRegistry): string {
+  const sorted = Object.fromEntries(Object.entries(registry).sort(([a], [b]) => a.localeCompare(b)));
+  return JSON.stringify(sorted, null, 2) + "\n";
+}
+
+/**
+ * Three-way merge of two registries that both changed base (two machines claiming names at the same time).
+ * Each name keeps the side that changed it; a name that both sides changed differently, e.g. claimed by two
+ * projects, is an error.
+ */
+export function mergeRegistry(base: WorkspaceRegistry, ours: WorkspaceRegistry, theirs: WorkspaceRegistry): WorkspaceRegistry {
+  const same = (a?: WorkspaceClaim, b?: WorkspaceClaim) => JSON.stringify(a) === JSON.stringify(b);
+  const merged: WorkspaceRegistry = {};
+  for (const name of new Set([...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)])) {
+    let claim: WorkspaceClaim | undefined;
+    if (same(ours[name], theirs[name]) || same(theirs[name], base[name])) claim = ours[name];
+    else if (same(ours[name], base[name])) claim = theirs[name];
+    else {
+      throw new Error(
+        `Workspace "${name}" was claimed by another project while this command ran. Nothing was pushed. ` +
+          `Run the command again; if the name is taken, set a different "workspace" in .agvault/config.json.`
+      );
+    }
+    if (claim) merged[name] = claim;
+  }
+  return merged;
+}
+
+/**
+ * True when the claim on a workspace name belongs to a different project than the one with this remote and projectId.
+ * Projects with a remote are told apart by it (clones of one repo share the workspace); two projects without one are
+ * only the same when the claim carries this projectId.
+ */
+export function isClaimedByOther(claim: WorkspaceClaim | undefined, remote: string | null, projectId?: string): boolean {
+  if (!claim) return false;
+  const normalized = remote ? normalizeRemote(remote) : null;
+  if (claim.remote !== null || normalized !== null) return claim.remote !== normalized;
+  return !projectId || claim.project !== projectId;
+}
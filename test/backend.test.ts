@@ -0,0 +1,127 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DirectoryBackend, GitBackend } from "../src/backend.js";
+import { WORKSPACES_FILE, loadWorkspaceRegistry, saveWorkspaceRegistry, type WorkspaceClaim } from "../src/workspace.js";
+
+const root = mkdtempSync(join(tmpdir(), "agvault-test-"));
+const env = { ...process.env };
+
+before(() => {
+  process.env.HOME = join(root, "home");
+  process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = "Test";
+  process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = "test@example.com";
+});
+
+after(() => {
+  process.env = env;
+  rmSync(root, { recursive: true, force: true });
+});
+
+const claim = (project: string): WorkspaceClaim => ({ remote: null, project, claimedAt: "2026-01-01T00:00:00.000Z" });
+
+/** Working copy of the vault at url (created empty when missing); close it when done. */
+async function open(url: string): Promise<GitBackend> {
+  const vault = new GitBackend(url, "main");
+  await vault.clone(mkdtempSync(join(root, "wc-")), { create: true });
+  return vault;
+}
+
+/** Two working copies that each claim a name in workspaces.json; the second one pushes after the first. */
+async function claimConcurrently(url: string, first: [string, WorkspaceClaim], second: [string, WorkspaceClaim]): Promise<GitBackend> {
+  const setup = await open(url);
+  saveWorkspaceRegistry(setup, { existing: claim("e") });
+  await setup.commit("claim existing");
+  await setup.push();
+  await setup.close();
+
+  const a = await open(url);
+  const b = await open(url);
+  for (const [vault, [name, value]] of [[a, first], [b, second]] as const) {
+    saveWorkspaceRegistry(vault, { ...loadWorkspaceRegistry(vault), [name]: value });
+    vault.write(`vault/${name}/${value.project}.md`, Buffer.from(name));
+    await vault.commit(`claim ${name}`);
+  }
+  await a.push();
+  await a.close();
+  return b;
+}
+
+test("concurrent claims of different workspaces are merged into workspaces.json", async () => {
+  const url = join(root, "claims.git");
+  const b = await claimConcurrently(url, ["alpha", claim("a")], ["beta", claim("b")]);
+  await b.push();
+  await b.close();
+  const registry = JSON.parse(execFileSync("git", ["--git-dir", url, "show", `main:${WORKSPACES_FILE}`], { encoding: "utf-8" }));
+  assert.deepEqual(Object.keys(registry), ["alpha", "beta", "existing"]);
+  const files = execFileSync("git", ["--git-dir", url, "ls-tree", "-r", "--name-only", "main", "vault"], { encoding: "utf-8" });
+  assert.deepEqual(files.trim().split("\n"), ["vault/.gitkeep", "vault/alpha/a.md", "vault/beta/b.md"]);
+});
+
+test("two projects claiming the same workspace at once: the second push fails", async () => {
+  const url = join(root, "same-claim.git");
+  const b = await claimConcurrently(url, ["alpha", claim("a")], ["alpha", claim("b")]);
+  await assert.rejects(b.push(), /Workspace "alpha" was claimed by another project/);
+  await b.close();
+  const registry = JSON.parse(execFileSync("git", ["--git-dir", url, "show", `main:${WORKSPACES_FILE}`], { encoding: "utf-8" }));
+  assert.equal(registry.alpha.project, "a");
+});
+
+/** Working copy of the directory vault at path; close it when done. */
+async function openFolder(path: string): Promise<DirectoryBackend> {
+  const vault = new DirectoryBackend(path);
+  await vault.clone(mkdtempSync(join(root, "wc-")), { create: true });
+  return vault;
+}
+
+test("two projects pushing to the same folder at once keep each other's files and claims", async () => {
+  const path = join(root, "shared-folder");
+  const setup = await openFolder(path);
+  saveWorkspaceRegistry(setup, { existing: claim("e") });
+  setup.write("vault/existing/old.md", Buffer.from("old"));
+  await setup.push();
+  await setup.close();
+
+  const a = await openFolder(path);
+  const b = await openFolder(path);
+  saveWorkspaceRegistry(b, { ...loadWorkspaceRegistry(b), beta: claim("b") });
+  b.write("vault/beta/b.md", Buffer.from("beta"));
+  await b.push();
+  await b.close();
+
+  saveWorkspaceRegistry(a, { ...loadWorkspaceRegistry(a), alpha: claim("a") });
+  a.write("vault/alpha/a.md", Buffer.from("alpha"));
+  a.write("vault/existing/old.md", null);
+  await a.push();
+  await a.close();
+
+  const registry = JSON.parse(readFileSync(join(path, WORKSPACES_FILE), "utf-8"));
+  assert.deepEqual(Object.keys(registry).sort(), ["alpha", "beta", "existing"]);
+  assert.equal(readFileSync(join(path, "vault/alpha/a.md"), "utf-8"), "alpha");
+  assert.equal(readFileSync(join(path, "vault/beta/b.md"), "utf-8"), "beta");
+  assert.equal(existsSync(join(path, "vault/existing")), false);
+});
+
+test("a folder file changed by another project since fill: push fails and writes nothing", async () => {
+  const path = join(root, "conflict-folder");
+  const setup = await openFolder(path);
+  setup.write("vault/alpha/notes.md", Buffer.from("base"));
+  await setup.push();
+  await setup.close();
+
+  const a = await openFolder(path);
+  const b = await openFolder(path);
+  b.write("vault/alpha/notes.md", Buffer.from("theirs"));
+  await b.push();
+  await b.close();
+
+  a.write("vault/alpha/notes.md", Buffer.from("ours"));
+  a.write("vault/alpha/new.md", Buffer.from("new"));
+  await assert.rejects(a.push(), /changed these files in .*since this one read them, nothing was pushed:\n  vault\/alpha\/notes\.md/);
+  await a.close();
+  assert.equal(readFileSync(join(path, "vault/alpha/notes.md"), "utf-8"), "theirs");
+  assert.equal(existsSync(join(path, "vault/alpha/new.md")), false);
+});
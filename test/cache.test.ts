@@ -0,0 +1,110 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, utimesSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getCachePath, lockCache } from "../src/cache.js";
+import { DEFAULT_EXCLUDE, saveConfig } from "../src/config.js";
+import { pullFromVault, storeToVault } from "../src/vault.js";
+
+const root = mkdtempSync(join(tmpdir(), "agvault-test-"));
+const env = { ...process.env };
+
+before(() => {
+  process.env.HOME = join(root, "home");
+  process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = "Test";
+  process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = "test@example.com";
+});
+
+after(() => {
+  process.env = env;
+  rmSync(root, { recursive: true, force: true });
+});
+
+test("lockCache waits for the holder to release the lock", async () => {
+  const mirror = join(root, "locks", "a.git");
+  const release = await lockCache(mirror);
+  let acquired = false;
+  const next = lockCache(mirror).then((releaseNext) => {
+    acquired = true;
+    releaseNext();
+  });
+  await new Promise((resolve) => setTimeout(resolve, 400));
+  assert.equal(acquired, false);
+  release();
+  await next;
+  assert.equal(acquired, true);
+  assert.equal(existsSync(mirror + ".lock"), false);
+});
+
+test("lockCache takes over a lock left by a process that no longer exists", async () => {
+  const mirror = join(root, "locks", "b.git");
+  mkdirSync(join(root, "locks"), { recursive: true });
+  writeFileSync(mirror + ".lock", "99999999");
+  const release = await lockCache(mirror);
+  assert.equal(readFileSync(mirror + ".lock", "utf-8"), String(process.pid));
+  release();
+});
+
+test("lockCache leaves a stale lock alone while another command is taking it over", async () => {
+  const mirror = join(root, "locks", "c.git");
+  mkdirSync(join(root, "locks"), { recursive: true });
+  writeFileSync(mirror + ".lock", "99999999");
+  writeFileSync(mirror + ".lock.takeover", "");
+  let acquired = false;
+  const next = lockCache(mirror).then((release) => {
+    acquired = true;
+    release();
+  });
+  await new Promise((resolve) => setTimeout(resolve, 400));
+  assert.equal(acquired, false);
+  assert.equal(readFileSync(mirror + ".lock", "utf-8"), "99999999");
+  rmSync(mirror + ".lock.takeover");
+  await next;
+  assert.equal(acquired, true);
+});
+
+test("lockCache clears a takeover left by a command that died", async () => {
+  const mirror = join(root, "locks", "d.git");
+  mkdirSync(join(root, "locks"), { recursive: true });
+  writeFileSync(mirror + ".lock", "99999999");
+  writeFileSync(mirror + ".lock.takeover", "");
+  const old = new Date(Date.now() - 60_000);
+  utimesSync(mirror + ".lock.takeover", old, old);
+  const release = await lockCache(mirror);
+  assert.equal(readFileSync(mirror + ".lock", "utf-8"), String(process.pid));
+  assert.equal(existsSync(mirror + ".lock.takeover"), false);
+  release();
+});
+
+test("with cache on, commands fetch into a persistent mirror and see each other's pushes", async () => {
+  const vault = join(root, "cached.git");
+  const project = (name: string) => {
+    const cwd = join(root, name);
+    mkdirSync(cwd, { recursive: true });
+    saveConfig(cwd, {
+      repoUrl: vault,
+      include: ["**/*.md"],
+      exclude: [...DEFAULT_EXCLUDE],
+      branch: "main",
+      workspace: "notes",
+      projectId: "0123456789abcdef",
+      cache: true,
+    });
+    return cwd;
+  };
+  const first = project("cache-a");
+  writeFileSync(join(first, "AGENTS.md"), "v1\n");
+  await storeToVault(first);
+
+  const second = project("cache-b");
+  await pullFromVault(second);
+  assert.equal(existsSync(join(getCachePath(vault), "HEAD")), true);
+  assert.equal(readFileSync(join(second, "AGENTS.md"), "utf-8"), "v1\n");
+  writeFileSync(join(second, "AGENTS.md"), "v2\n");
+  await storeToVault(second);
+
+  await pullFromVault(first);
+  assert.equal(readFileSync(join(first, "AGENTS.md"), "utf-8"), "v2\n");
+  assert.equal(existsSync(getCachePath(vault) + ".lock"), false);
+});
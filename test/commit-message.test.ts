@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { hostname } from "os";
+import { checkCommitTemplate, formatCommitMessage, summarizeChanges } from "../src/commit-message.js";
+
+const none = { added: [], modified: [], deleted: [] };
+
+test("formatCommitMessage fills the default template and lists the files", () => {
+  const message = formatCommitMessage({
+    action: "store",
+    workspace: "acme-api",
+    changes: { added: ["vault/acme-api/AGENTS.md", "vault/acme-api/docs/a.md"], modified: ["vault/acme-api/CLAUDE.md"], deleted: [] },
+  });
+  assert.equal(
+    message,
+    `agvault: store acme-api (2 added, 1 modified) from ${hostname()}\n\n` +
+      "added: vault/acme-api/AGENTS.md\nadded: vault/acme-api/docs/a.md\nmodified: vault/acme-api/CLAUDE.md"
+  );
+});
+
+test("formatCommitMessage counts only files under vault/", () => {
+  const message = formatCommitMessage({
+    action: "sync",
+    workspace: "w",
+    template: "{action} {workspace}: +{added} ~{modified} -{deleted}",
+    changes: { added: ["workspaces.json", "vault/w/a.md"], modified: [], deleted: ["vault/w/b.md"] },
+  });
+  assert.equal(message.split("\n")[0], "sync w: +1 ~0 -1");
+  assert.match(message, /^added: workspaces\.json$/m);
+});
+
+test("formatCommitMessage uses the -m message as the subject", () => {
+  const message = formatCommitMessage({ action: "store", workspace: "w", template: "{action}", message: "  Update notes  ", changes: none });
+  assert.equal(message, "Update notes");
+});
+
+test("formatCommitMessage lists at most 50 files", () => {
+  const added = Array.from({ length: 53 }, (_, i) => `vault/w/f${i}.md`);
+  const lines = formatCommitMessage({ action: "store", workspace: "w", changes: { ...none, added } }).split("\n");
+  assert.equal(lines.length, 2 + 50 + 1);
+  assert.equal(lines[lines.length - 1], "… and 3 more");
+});
+
+test("summarizeChanges names only the kinds that changed", () => {
+  assert.equal(summarizeChanges({ added: [], modified: ["a"], deleted: ["b", "c"] }), "1 modified, 2 deleted");
+  assert.equal(summarizeChanges(none), "no file changes");
+});
+
+test("checkCommitTemplate refuses unknown placeholders and empty templates", () => {
+  assert.equal(checkCommitTemplate("notes: {action} {workspace} ({summary})"), null);
+  assert.match(checkCommitTemplate("{action} by {user}") ?? "", /Unknown placeholder \{user\}/);
+  assert.equal(checkCommitTemplate("   "), "commitMessage is empty.");
+});
@@ -0,0 +1,47 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { DEFAULT_EXCLUDE, loadConfig, saveConfig } from "../src/config.js";
+import { getEffectiveConfig, setConfigValue, splitCommaList } from "../src/config-edit.js";
+import { setProfile } from "../src/global-default.js";
+
+const root = mkdtempSync(join(tmpdir(), "agvault-config-edit-"));
+const env = { ...process.env };
+
+before(() => {
+  process.env.HOME = join(root, "home");
+});
+
+after(() => {
+  process.env = env;
+  rmSync(root, { recursive: true, force: true });
+});
+
+test("splitCommaList keeps commas inside braces in their pattern", () => {
+  assert.deepEqual(splitCommaList("docs/**, *.md"), ["docs/**", "*.md"]);
+  assert.deepEqual(splitCommaList("*.{md,mdc},.cursor/**"), ["*.{md,mdc}", ".cursor/**"]);
+  assert.deepEqual(splitCommaList("{a,{b,c}}/*.md,x"), ["{a,{b,c}}/*.md", "x"]);
+  assert.deepEqual(splitCommaList("a\\,b,c"), ["a\\,b", "c"]);
+  assert.deepEqual(splitCommaList(" , "), []);
+});
+
+test("config set include accepts brace patterns", () => {
+  saveConfig(root, { repoUrl: join(root, "vault.git"), include: ["**/*.md"], exclude: [...DEFAULT_EXCLUDE], branch: "main" });
+  assert.deepEqual(setConfigValue(root, "include", "**/*.{md,mdc},docs/**"), ["**/*.{md,mdc}", "docs/**"]);
+  assert.deepEqual(loadConfig(root)!.include, ["**/*.{md,mdc}", "docs/**"]);
+});
+
+test("config show takes the author and committer from the project's profile", () => {
+  const cwd = join(root, "profiled");
+  const author = { name: "Work Bot", email: "bot@example.com" };
+  setProfile("work", { repoUrl: join(root, "work.git"), author });
+  saveConfig(cwd, { repoUrl: join(root, "work.git"), include: ["**/*.md"], exclude: [...DEFAULT_EXCLUDE], branch: "main", profile: "work" });
+  const setting = (key: string) => getEffectiveConfig(cwd).find((s) => s.key === key);
+  assert.deepEqual(setting("author"), { key: "author", value: author, source: "profile" });
+  assert.deepEqual(setting("committer"), { key: "committer", value: author, source: "profile" });
+
+  setConfigValue(cwd, "committer", "CI <ci@example.com>");
+  assert.deepEqual(setting("committer"), { key: "committer", value: { name: "CI", email: "ci@example.com" }, source: "project" });
+});
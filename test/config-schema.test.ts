@@ -0,0 +1,92 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CONFIG_VERSION, findUnknownKeys, migrateConfig, validateSchema } from "../src/config-schema.js";
+import { loadConfig, loadRawConfig, saveConfig } from "../src/config.js";
+
+test("validateSchema accepts a valid config", () => {
+  const errors = validateSchema({
+    version: CONFIG_VERSION,
+    repoUrl: "git@github.com:acme/vault.git",
+    include: ["**/*.md"],
+    exclude: ["node_modules/**"],
+    backend: "github",
+    encryption: { keyId: "0123456789abcdef" },
+    author: { name: "Ada", email: "ada@example.com" },
+    vaults: { team: { repoUrl: "/srv/team.git", include: ["docs/team/**"] } },
+  });
+  assert.deepEqual(errors, []);
+});
+
+test("validateSchema reports the path of each bad value and the expected type, in schema order", () => {
+  const errors = validateSchema({
+    repoUrl: 42,
+    include: ["*.md", 3],
+    backend: "s3",
+    cache: "yes",
+    encryption: {},
+    author: { name: "Ada" },
+    vaults: { team: { include: "docs/**" } },
+  });
+  assert.deepEqual(
+    errors.map((e) => `${e.path}: ${e.message}`),
+    [
+      "repoUrl: expected a string, got number 42",
+      'backend: expected one of "github", "git", "directory", got "s3"',
+      "include[1]: expected a string, got number 3",
+      'cache: expected true or false, got "yes"',
+      "encryption.keyId: missing (expected a string)",
+      "author.email: missing (expected a string)",
+      "vaults.team.repoUrl: missing (expected a string)",
+      'vaults.team.include: expected a list of strings, got "docs/**"',
+    ]
+  );
+});
+
+test("findUnknownKeys lists keys the schema does not define", () => {
+  assert.deepEqual(findUnknownKeys({ repoUrl: "x", inclde: [], futureField: 1 }), ["inclde", "futureField"]);
+});
+
+test("migrateConfig stamps configs from before versioning and leaves current ones alone", () => {
+  const old = { repoUrl: "x", include: [], exclude: [] };
+  const { config, migrated } = migrateConfig(old);
+  assert.equal(migrated, true);
+  assert.deepEqual(config, { version: CONFIG_VERSION, ...old });
+  assert.equal(Object.keys(config)[0], "version");
+  assert.deepEqual(migrateConfig(config), { config, migrated: false });
+  const newer = { version: CONFIG_VERSION + 1, repoUrl: "x" };
+  assert.deepEqual(migrateConfig(newer), { config: newer, migrated: false });
+});
+
+test("loading an old config does not rewrite the file; saving it does", () => {
+  const cwd = mkdtempSync(join(tmpdir(), "agvault-test-"));
+  try {
+    mkdirSync(join(cwd, ".agvault"));
+    const path = join(cwd, ".agvault", "config.json");
+    const original = JSON.stringify({ repoUrl: "/srv/vault.git", include: ["*.md"], exclude: [], custom: true });
+    writeFileSync(path, original);
+    assert.equal(loadRawConfig(cwd)?.version, CONFIG_VERSION);
+    const config = loadConfig(cwd)!;
+    assert.equal(readFileSync(path, "utf-8"), original);
+    saveConfig(cwd, { ...config, branch: "notes" });
+    const saved = JSON.parse(readFileSync(path, "utf-8"));
+    assert.equal(saved.version, CONFIG_VERSION);
+    assert.equal(saved.branch, "notes");
+    assert.equal(saved.custom, true);
+  } finally {
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test("saveConfig refuses to overwrite a config from a newer agvault", () => {
+  const cwd = mkdtempSync(join(tmpdir(), "agvault-test-"));
+  try {
+    mkdirSync(join(cwd, ".agvault"));
+    writeFileSync(join(cwd, ".agvault", "config.json"), JSON.stringify({ version: CONFIG_VERSION + 1, repoUrl: "x", include: [], exclude: [] }));
+    assert.throws(() => saveConfig(cwd, loadConfig(cwd)!), /from a newer agvault/);
+  } finally {
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
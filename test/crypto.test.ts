@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { decrypt, encrypt, generateKey, getEncryptedKeyId, importKey, isEncrypted } from "../src/crypto.js";
+
+test("encrypt and decrypt round-trip the content", () => {
+  const key = generateKey();
+  const data = Buffer.from("# Notes\nsecret plan\n", "utf-8");
+  const stored = encrypt(data, key, "vault/notes/notes.md");
+  assert.equal(isEncrypted(stored), true);
+  assert.equal(getEncryptedKeyId(stored), key.id);
+  assert.equal(stored.includes(data), false);
+  assert.deepEqual(decrypt(stored, key, "vault/notes/notes.md"), data);
+});
+
+test("encrypting the same content twice gives different bytes (random IV)", () => {
+  const key = generateKey();
+  const data = Buffer.from("same", "utf-8");
+  assert.notDeepEqual(encrypt(data, key, "a.md"), encrypt(data, key, "a.md"));
+});
+
+test("decrypt refuses a different key", () => {
+  const stored = encrypt(Buffer.from("x"), generateKey(), "a.md");
+  assert.throws(() => decrypt(stored, generateKey(), "a.md"), /a\.md is encrypted with key [0-9a-f]{16}, not [0-9a-f]{16}/);
+});
+
+test("decrypt detects tampered content", () => {
+  const key = generateKey();
+  const stored = encrypt(Buffer.from("original content"), key, "a.md");
+  stored[stored.length - 1] ^= 0xff;
+  assert.throws(() => decrypt(stored, key, "a.md"), /Could not decrypt a\.md/);
+});
+
+test("decrypt refuses a file moved to another path", () => {
+  const key = generateKey();
+  const stored = encrypt(Buffer.from("project a"), key, "vault/a/AGENTS.md");
+  assert.throws(() => decrypt(stored, key, "vault/b/AGENTS.md"), /Could not decrypt vault\/b\/AGENTS\.md/);
+});
+
+test("plain files are not mistaken for encrypted ones", () => {
+  assert.equal(isEncrypted(Buffer.from("AGVENC01")), false);
+  assert.equal(isEncrypted(Buffer.from("# just markdown, long enough to fill a header of fifty bytes")), false);
+});
+
+test("importKey accepts the base64 of a 256-bit key and keeps its id", () => {
+  const key = generateKey();
+  const imported = importKey(key.key.toString("base64"));
+  assert.equal(imported.id, key.id);
+  assert.deepEqual(imported.key, key.key);
+  assert.throws(() => importKey(Buffer.alloc(16).toString("base64")), /Invalid encryption key/);
+});
@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { unifiedDiff } from "../src/diff.js";
+
+test("unifiedDiff returns an empty string for equal texts", () => {
+  assert.equal(unifiedDiff("a\nb\n", "a\nb\n", "old", "new"), "");
+});
+
+test("unifiedDiff shows a changed line with its context", () => {
+  const diff = unifiedDiff("a\nb\nc\n", "a\nB\nc\n", "local/x.md", "vault/x.md");
+  assert.equal(diff, "--- local/x.md\n+++ vault/x.md\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n");
+});
+
+test("unifiedDiff of a new file starts the old range at 0,0", () => {
+  const diff = unifiedDiff("", "one\ntwo\n", "/dev/null", "vault/new.md");
+  assert.equal(diff, "--- /dev/null\n+++ vault/new.md\n@@ -0,0 +1,2 @@\n+one\n+two\n");
+});
+
+test("unifiedDiff of a deleted file removes every line", () => {
+  const diff = unifiedDiff("one\n", "", "local/gone.md", "/dev/null");
+  assert.equal(diff, "--- local/gone.md\n+++ /dev/null\n@@ -1 +0,0 @@\n-one\n");
+});
+
+test("unifiedDiff reports a missing final newline", () => {
+  const diff = unifiedDiff("a\n", "a", "old", "new");
+  assert.equal(diff, "--- old\n+++ new\n@@ -1 +1 @@\n-a\n+a\n\\ No newline at end of file\n");
+});
+
+test("unifiedDiff splits changes far apart into separate hunks", () => {
+  const lines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}\n`);
+  const changed = [...lines];
+  changed[1] = "second\n";
+  changed[18] = "nineteenth\n";
+  const diff = unifiedDiff(lines.join(""), changed.join(""), "old", "new");
+  const headers = diff.split("\n").filter((l) => l.startsWith("@@"));
+  assert.deepEqual(headers, ["@@ -1,5 +1,5 @@", "@@ -16,5 +16,5 @@"]);
+});
+
+test("unifiedDiff finds the shortest edit script (Myers)", () => {
+  // a b c a b b a -> c b a b a c: the classic example needs 5 edits
+  const a = ["a", "b", "c", "a", "b", "b", "a"].map((l) => l + "\n").join("");
+  const b = ["c", "b", "a", "b", "a", "c"].map((l) => l + "\n").join("");
+  const body = unifiedDiff(a, b, "old", "new").split("\n").slice(3);
+  const edits = body.filter((l) => l.startsWith("+") || l.startsWith("-"));
+  assert.equal(edits.length, 5);
+  const kept = body.filter((l) => l.startsWith(" ")).map((l) => l.slice(1));
+  assert.equal(kept.length, 4);
+});
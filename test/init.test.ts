@@ -0,0 +1,112 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import inquirer from "inquirer";
+import { DEFAULT_EXCLUDE, loadConfig, loadRawConfig, saveConfig, saveRawConfig, type AgVaultConfig } from "../src/config.js";
+import { saveGlobalDefault } from "../src/global-default.js";
+import { runInit } from "../src/init.js";
+import { pullFromVault, storeToVault } from "../src/vault.js";
+
+const root = mkdtempSync(join(tmpdir(), "agvault-init-"));
+const env = { ...process.env };
+const prompt = inquirer.prompt;
+const tty = { stdin: process.stdin.isTTY, stdout: process.stdout.isTTY };
+
+/** Answer init's prompts by question name; questions without an answer take their default. */
+function answerPrompts(answers: Record<string, unknown>): void {
+  inquirer.prompt = (async (questions: Array<{ name: string; default?: unknown; when?: (a: object) => boolean }>) => {
+    const result: Record<string, unknown> = {};
+    for (const q of questions) {
+      if (q.when && !q.when(result)) continue;
+      result[q.name] = q.name in answers ? answers[q.name] : q.default;
+    }
+    return result;
+  }) as unknown as typeof inquirer.prompt;
+}
+
+before(() => {
+  process.env.HOME = join(root, "home");
+  process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = "Test";
+  process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = "test@example.com";
+  process.stdin.isTTY = process.stdout.isTTY = true;
+});
+
+after(() => {
+  process.env = env;
+  inquirer.prompt = prompt;
+  process.stdin.isTTY = tty.stdin;
+  process.stdout.isTTY = tty.stdout;
+  rmSync(root, { recursive: true, force: true });
+});
+
+function project(name: string, config: Partial<AgVaultConfig> = {}): string {
+  const cwd = join(root, name);
+  mkdirSync(cwd, { recursive: true });
+  saveConfig(cwd, {
+    repoUrl: join(root, "vault.git"),
+    include: ["**/*.md"],
+    exclude: [...DEFAULT_EXCLUDE],
+    branch: "main",
+    workspace: name,
+    projectId: "0123456789abcdef",
+    layers: ["shared"],
+    allowSecrets: ["docs/**"],
+    cache: true,
+    gitIgnore: "gitignore",
+    allowPublicRepo: true,
+    commitMessage: "vault: {action}",
+    author: { name: "Bot", email: "bot@example.com" },
+    vaults: { team: { repoUrl: join(root, "team.git"), include: ["team/**"] } },
+    ...config,
+  });
+  return cwd;
+}
+
+const KEPT = ["layers", "allowSecrets", "cache", "gitIgnore", "allowPublicRepo", "commitMessage", "author", "vaults", "workspace", "projectId"];
+
+test("re-running interactive init with a new repo keeps the settings it does not ask about", async () => {
+  const cwd = project("manual");
+  const before = loadRawConfig(cwd)!;
+  answerPrompts({ overwrite: true, repoUrl: join(root, "other.git"), customize: true, includeExtra: "**/*.{md,mdc}" });
+  await runInit(cwd);
+  const config = loadRawConfig(cwd)!;
+  assert.equal(config.repoUrl, join(root, "other.git"));
+  assert.deepEqual(config.include, ["**/*.md", "**/*.{md,mdc}"]);
+  for (const key of KEPT) assert.deepEqual(config[key], before[key], key);
+});
+
+test("re-running interactive init with the default vault keeps the settings it does not ask about", async () => {
+  saveGlobalDefault(join(root, "vault.git"));
+  const cwd = project("preset");
+  const before = loadRawConfig(cwd)!;
+  answerPrompts({ overwrite: true });
+  await runInit(cwd);
+  const config = loadRawConfig(cwd)!;
+  for (const key of [...KEPT, "repoUrl", "include", "exclude", "branch"]) assert.deepEqual(config[key], before[key], key);
+});
+
+test("re-running init on a project from before workspace names keeps its files in the vault", async () => {
+  const cwd = join(root, "legacy");
+  mkdirSync(cwd, { recursive: true });
+  const vault = join(root, "legacy.git");
+  saveConfig(cwd, { repoUrl: vault, include: ["**/*.md"], exclude: [...DEFAULT_EXCLUDE], branch: "main", workspace: "legacy" });
+  writeFileSync(join(cwd, "AGENTS.md"), "notes\n");
+  await storeToVault(cwd);
+  const { workspace: _workspace, ...legacy } = loadRawConfig(cwd)!;
+  saveRawConfig(cwd, legacy);
+
+  saveGlobalDefault(vault);
+  answerPrompts({ overwrite: true });
+  await runInit(cwd);
+  await runInit(cwd, { yes: true });
+  assert.equal(loadConfig(cwd)!.workspace, undefined);
+
+  await storeToVault(cwd);
+  const workspace = loadConfig(cwd)!.workspace!;
+  assert.match(workspace, /^legacy-[0-9a-f]{6}$/);
+  rmSync(join(cwd, "AGENTS.md"));
+  await pullFromVault(cwd);
+  assert.equal(readFileSync(join(cwd, "AGENTS.md"), "utf-8"), "notes\n");
+});
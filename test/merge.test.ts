@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { hasConflictMarkers, isBinary, mergeText } from "../src/merge.js";
+
+const buf = (text: string) => Buffer.from(text, "utf-8");
+
+test("mergeText combines edits to different lines", () => {
+  const base = buf("one\ntwo\nthree\n");
+  const local = buf("ONE\ntwo\nthree\n");
+  const vault = buf("one\ntwo\nTHREE\n");
+  const result = mergeText(local, base, vault);
+  assert.equal(result.conflicted, false);
+  assert.equal(result.content.toString(), "ONE\ntwo\nTHREE\n");
+});
+
+test("mergeText marks edits to the same line as a conflict", () => {
+  const result = mergeText(buf("a\nlocal\nc\n"), buf("a\nb\nc\n"), buf("a\nvault\nc\n"));
+  assert.equal(result.conflicted, true);
+  const text = result.content.toString();
+  assert.match(text, /^<<<<<<< local\nlocal\n=======\nvault\n>>>>>>> vault$/m);
+  assert.equal(hasConflictMarkers(result.content), true);
+});
+
+test("mergeText without a base conflicts unless both sides are the same", () => {
+  assert.equal(mergeText(buf("x\n"), null, buf("y\n")).conflicted, true);
+  const same = mergeText(buf("x\n"), null, buf("x\n"));
+  assert.equal(same.conflicted, false);
+  assert.equal(same.content.toString(), "x\n");
+});
+
+test("hasConflictMarkers needs both the local and the vault marker", () => {
+  assert.equal(hasConflictMarkers(buf("<<<<<<< local\nx\n")), false);
+  assert.equal(hasConflictMarkers(buf("<<<<<<< HEAD\nx\n=======\ny\n>>>>>>> other\n")), false);
+  assert.equal(hasConflictMarkers(buf("<<<<<<< local\nx\n=======\ny\n>>>>>>> vault\n")), true);
+});
+
+test("hasConflictMarkers finds markers in CRLF files", () => {
+  assert.equal(hasConflictMarkers(buf("<<<<<<< local\r\nx\r\n=======\r\ny\r\n>>>>>>> vault\r\n")), true);
+  const merged = mergeText(buf("a\r\nx\r\n"), buf("a\r\n"), buf("a\r\ny\r\n"));
+  assert.equal(merged.conflicted, true);
+  assert.equal(hasConflictMarkers(merged.content), true);
+});
+
+test("isBinary looks for a NUL byte in the first 8000 bytes", () => {
+  assert.equal(isBinary(buf("plain text")), false);
+  assert.equal(isBinary(Buffer.from([0x50, 0x00, 0x4e])), true);
+  assert.equal(isBinary(Buffer.concat([Buffer.alloc(8000, 0x61), Buffer.from([0])])), false);
+});
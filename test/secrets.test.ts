@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ALLOW_MARKER, redact, scanContent, scanFiles } from "../src/secrets.js";
+
+// Fake secrets are put together at runtime so this file does not trip secret scanners itself
+const AWS_KEY_ID = "AKIA" + "IOSFODNN7EXAMPLE";
+const GITHUB_TOKEN = "gh" + "p_" + "x7Kq2Lm9Pw4Rt8Yz3Nb6Vc1Hd5Fg0Js7Ae2u";
+const RANDOM_TOKEN = "q8Vz" + "X2mL9wPr4TnY7bK3cD6fH1jS5gA0eU8iO";
+
+const scan = (text: string) => scanContent("notes.md", Buffer.from(text, "utf-8"));
+
+test("scanContent reports known token formats with their line", () => {
+  const findings = scan(`# Setup\nkey: ${AWS_KEY_ID}\ntoken = ${GITHUB_TOKEN}\n`);
+  assert.deepEqual(
+    findings.map((f) => [f.rule, f.line, f.match]),
+    [
+      ["aws-access-key-id", 2, AWS_KEY_ID],
+      ["github-token", 3, GITHUB_TOKEN],
+    ]
+  );
+});
+
+test("scanContent reports private key blocks", () => {
+  const findings = scan("-----BEGIN " + "RSA PRIVATE KEY-----\nMIIE...\n");
+  assert.equal(findings[0]?.rule, "private-key");
+});
+
+test("scanContent reports random-looking strings by their entropy", () => {
+  const findings = scan(`password: ${RANDOM_TOKEN}\n`);
+  assert.deepEqual(findings.map((f) => f.rule), ["high-entropy-string"]);
+});
+
+test("scanContent ignores hex digests, paths and prose", () => {
+  const digest = "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855";
+  const text = [
+    `sha256: ${digest}`,
+    "see https://example.com/docs/getting-started/installation/requirements",
+    "The quick brown fox jumps over the lazy dog again and again.",
+    "aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1",
+  ].join("\n");
+  assert.deepEqual(scan(text), []);
+});
+
+test("scanContent skips lines with the allow marker and binary content", () => {
+  assert.deepEqual(scan(`example: ${AWS_KEY_ID} # ${ALLOW_MARKER}\n`), []);
+  assert.deepEqual(scanContent("a.bin", Buffer.concat([Buffer.from(AWS_KEY_ID), Buffer.from([0])])), []);
+});
+
+test("scanFiles skips allowed files and allowed values", async () => {
+  const cwd = mkdtempSync(join(tmpdir(), "agvault-test-"));
+  try {
+    writeFileSync(join(cwd, "a.md"), `id ${AWS_KEY_ID}\n`);
+    writeFileSync(join(cwd, "b.md"), `id ${AWS_KEY_ID}\ntoken ${GITHUB_TOKEN}\n`);
+    const all = await scanFiles(cwd, ["a.md", "b.md"]);
+    assert.equal(all.length, 3);
+    const allowed = await scanFiles(cwd, ["a.md", "b.md"], ["a.md", AWS_KEY_ID]);
+    assert.deepEqual(allowed.map((f) => [f.path, f.rule]), [["b.md", "github-token"]]);
+  } finally {
+    rmSync(cwd, { recursive: true, force: true });
+  }
+});
+
+test("redact keeps only the ends of a secret", () => {
+  assert.equal(redact(AWS_KEY_ID), "AKIA…LE");
+  assert.equal(redact("short"), "****");
+});
@@ -0,0 +1,292 @@
+import { test, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { execFileSync } from "child_process";
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, renameSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { DEFAULT_EXCLUDE, loadConfig, saveConfig, type AgVaultConfig } from "../src/config.js";
+import { setConfigValue } from "../src/config-edit.js";
+import { generateKey, getEncryptedKeyId, saveKey } from "../src/crypto.js";
+import {
+  listVaultFilesForProjectRemote,
+  planSync,
+  pullFromVault,
+  rekeyVault,
+  saveTemplate,
+  statusVault,
+  storeToVault,
+  syncVault,
+} from "../src/vault.js";
+
+// Integration tests: real git against local bare repos; HOME is a temp dir so ~/.agvault is never touched
+const root = mkdtempSync(join(tmpdir(), "agvault-test-"));
+const env = { ...process.env };
+
+before(() => {
+  process.env.HOME = join(root, "home");
+  process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = "Test";
+  process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = "test@example.com";
+});
+
+after(() => {
+  process.env = env;
+  rmSync(root, { recursive: true, force: true });
+});
+
+/** A project folder using repoUrl as its vault; clones of one project share workspace and projectId. */
+function makeProject(name: string, repoUrl: string, files: Record<string, string> = {}): string {
+  const cwd = join(root, name);
+  mkdirSync(cwd, { recursive: true });
+  const config: AgVaultConfig = {
+    repoUrl,
+    include: ["**/*.md"],
+    exclude: [...DEFAULT_EXCLUDE],
+    branch: "main",
+    workspace: "notes",
+    projectId: "0123456789abcdef",
+  };
+  saveConfig(cwd, config);
+  for (const [rel, content] of Object.entries(files)) writeFileSync(join(cwd, rel), content);
+  return cwd;
+}
+
+test("store, pull, and prune a file deleted on another machine", async () => {
+  const vault = join(root, "prune.git");
+  const first = makeProject("prune-a", vault, { "AGENTS.md": "# agents\n", "CLAUDE.md": "# claude\n" });
+  assert.deepEqual(await storeToVault(first), { stored: 2, shared: [] });
+
+  const second = makeProject("prune-b", vault);
+  const pulled = await pullFromVault(second);
+  assert.equal(pulled.pulled, 2);
+  assert.equal(readFileSync(join(second, "CLAUDE.md"), "utf-8"), "# claude\n");
+
+  rmSync(join(second, "CLAUDE.md"));
+  writeFileSync(join(second, "AGENTS.md"), "# agents v2\n");
+  await storeToVault(second);
+
+  const result = await pullFromVault(first);
+  assert.deepEqual(result.pruned, ["CLAUDE.md"]);
+  assert.equal(existsSync(join(first, "CLAUDE.md")), false);
+  assert.equal(readFileSync(join(first, "AGENTS.md"), "utf-8"), "# agents v2\n");
+});
+
+test("a locally edited file is kept when it was deleted from the vault", async () => {
+  const vault = join(root, "keep.git");
+  const first = makeProject("keep-a", vault, { "AGENTS.md": "a\n", "PLAN.md": "plan\n" });
+  await storeToVault(first);
+  const second = makeProject("keep-b", vault);
+  await pullFromVault(second);
+  rmSync(join(second, "PLAN.md"));
+  await storeToVault(second);
+
+  writeFileSync(join(first, "PLAN.md"), "plan, edited\n");
+  const result = await pullFromVault(first);
+  assert.deepEqual(result.pruned, []);
+  assert.equal(readFileSync(join(first, "PLAN.md"), "utf-8"), "plan, edited\n");
+});
+
+test("pull from a vault that was moved fails and deletes nothing", async () => {
+  const vault = join(root, "moved.git");
+  const cwd = makeProject("moved", vault, { "AGENTS.md": "a\n", "CLAUDE.md": "c\n" });
+  await storeToVault(cwd);
+  renameSync(vault, join(root, "moved-elsewhere.git"));
+
+  await assert.rejects(pullFromVault(cwd), /Cannot read the vault at .*moved\.git/);
+  assert.equal(existsSync(join(cwd, "AGENTS.md")), true);
+  assert.equal(existsSync(join(cwd, "CLAUDE.md")), true);
+});
+
+test("pull from a different repo does not prune files it lacks", async () => {
+  const cwd = makeProject("switched", join(root, "original.git"), { "AGENTS.md": "a\n", "CLAUDE.md": "c\n" });
+  await storeToVault(cwd);
+  const other = makeProject("other", join(root, "other.git"), { "AGENTS.md": "other\n" });
+  await storeToVault(other);
+
+  saveConfig(cwd, { ...JSON.parse(readFileSync(join(cwd, ".agvault", "config.json"), "utf-8")), repoUrl: join(root, "other.git") });
+  const result = await pullFromVault(cwd);
+  assert.deepEqual(result.pruned, []);
+  assert.equal(existsSync(join(cwd, "CLAUDE.md")), true);
+});
+
+test("pull after the workspace was renamed does not prune the files of the old one", async () => {
+  const cwd = makeProject("renamed", join(root, "renamed.git"), { "AGENTS.md": "a\n", "PLAN.md": "plan\n" });
+  await storeToVault(cwd);
+  setConfigValue(cwd, "workspace", "renamed");
+
+  const result = await pullFromVault(cwd);
+  assert.deepEqual(result.pruned, []);
+  assert.equal(existsSync(join(cwd, "AGENTS.md")), true);
+  assert.equal(existsSync(join(cwd, "PLAN.md")), true);
+
+  const sync = await syncVault(cwd);
+  assert.deepEqual(sync.pruned, []);
+  assert.deepEqual(await listVaultFilesForProjectRemote(cwd), ["AGENTS.md", "PLAN.md"]);
+});
+
+test("each of the project's vaults stores its own files and keeps its own sync state", async () => {
+  const notes = join(root, "multi-notes.git");
+  const team = join(root, "multi-team.git");
+  const cwd = makeProject("multi", notes, { "AGENTS.md": "a\n" });
+  mkdirSync(join(cwd, "team"));
+  writeFileSync(join(cwd, "team", "RULES.md"), "rules\n");
+  saveConfig(cwd, {
+    ...loadConfig(cwd)!,
+    exclude: [...DEFAULT_EXCLUDE, "team/**"],
+    vaults: { team: { repoUrl: team, include: ["team/**/*.md"] } },
+  });
+
+  assert.equal((await storeToVault(cwd)).stored, 1);
+  assert.equal((await storeToVault(cwd, { vaultName: "team" })).stored, 1);
+  const teamState = JSON.parse(readFileSync(join(cwd, ".agvault", "vaults", "team", "state.json"), "utf-8"));
+  assert.deepEqual(Object.keys(teamState.files), ["team/RULES.md"]);
+  const state = JSON.parse(readFileSync(join(cwd, ".agvault", "state.json"), "utf-8"));
+  assert.deepEqual(Object.keys(state.files), ["AGENTS.md"]);
+
+  const other = makeProject("multi-other", join(root, "multi-empty.git"));
+  saveConfig(other, { ...loadConfig(other)!, vaults: { team: { repoUrl: team, include: ["team/**/*.md"] } } });
+  assert.equal((await pullFromVault(other, undefined, { vaultName: "team" })).pulled, 1);
+  assert.equal(readFileSync(join(other, "team", "RULES.md"), "utf-8"), "rules\n");
+  assert.equal(existsSync(join(other, "AGENTS.md")), false);
+});
+
+test("pull skips vault files that the project's patterns do not select", async () => {
+  const vault = join(root, "patterns.git");
+  const first = makeProject("patterns-a", vault, { "AGENTS.md": "a\n" });
+  mkdirSync(join(first, "private"));
+  writeFileSync(join(first, "private", "NOTES.md"), "mine\n");
+  await storeToVault(first);
+
+  const second = makeProject("patterns-b", vault);
+  saveConfig(second, { ...loadConfig(second)!, exclude: [...DEFAULT_EXCLUDE, "private/**"] });
+  assert.equal((await pullFromVault(second)).pulled, 1);
+  assert.equal(existsSync(join(second, "private")), false);
+  const statuses = await statusVault(second);
+  assert.equal(statuses.find((s) => s.path === "private/NOTES.md")?.status, "excluded-locally");
+});
+
+test("sync pushes a local deletion unless the file changed in the vault since", async () => {
+  const vault = join(root, "deleted.git");
+  const first = makeProject("deleted-a", vault, { "AGENTS.md": "a\n", "PLAN.md": "plan\n", "TODO.md": "todo\n" });
+  await storeToVault(first);
+  const second = makeProject("deleted-b", vault);
+  await pullFromVault(second);
+  writeFileSync(join(second, "TODO.md"), "todo, edited\n");
+  await storeToVault(second);
+
+  rmSync(join(first, "PLAN.md"));
+  rmSync(join(first, "TODO.md"));
+  const planned = await planSync(first);
+  assert.deepEqual(
+    planned.map((c) => [c.path, c.target, c.action]),
+    [
+      ["PLAN.md", "vault", "delete"],
+      ["TODO.md", "project", "create"],
+    ]
+  );
+  const result = await syncVault(first);
+  assert.equal(result.pulled, 1);
+  assert.equal(existsSync(join(first, "PLAN.md")), false);
+  assert.equal(readFileSync(join(first, "TODO.md"), "utf-8"), "todo, edited\n");
+  assert.deepEqual(await listVaultFilesForProjectRemote(first), ["AGENTS.md", "TODO.md"]);
+});
+
+/** Change a bare vault repo behind agvault's back, as whoever hosts it could. */
+function tamperVault(vault: string, edit: (dir: string) => void): void {
+  const dir = mkdtempSync(join(root, "tamper-"));
+  execFileSync("git", ["clone", "-q", "-b", "main", pathToFileURL(vault).href, dir]);
+  edit(dir);
+  execFileSync("git", ["commit", "-qam", "tamper"], { cwd: dir });
+  execFileSync("git", ["push", "-q", "origin", "main"], { cwd: dir });
+  rmSync(dir, { recursive: true, force: true });
+}
+
+test("a push rebased onto another machine's commit records only this project's files", async () => {
+  const vault = join(root, "rebased.git");
+  const cwd = makeProject("rebased", vault, { "AGENTS.md": "a\n", "CLAUDE.md": "# claude\n" });
+  await storeToVault(cwd);
+
+  writeFileSync(join(cwd, "AGENTS.md"), "a, edited\n");
+  let pushed = false;
+  const onPhase = (msg: string) => {
+    if (msg !== "Pushing…" || pushed) return;
+    pushed = true;
+    // Another machine pushes first, so this push is rejected and rebased onto its commit
+    tamperVault(vault, (dir) => writeFileSync(join(dir, "vault/notes/CLAUDE.md"), "# claude, elsewhere\n"));
+  };
+  await storeToVault(cwd, { onPhase });
+  assert.equal(pushed, true);
+
+  // The other machine's edit is pulled, not overwritten by the stale local copy
+  const result = await syncVault(cwd);
+  assert.equal(result.pulled, 1);
+  assert.equal(readFileSync(join(cwd, "CLAUDE.md"), "utf-8"), "# claude, elsewhere\n");
+  const vaultCopy = execFileSync("git", ["--git-dir", vault, "show", "main:vault/notes/CLAUDE.md"], { encoding: "utf-8" });
+  assert.equal(vaultCopy, "# claude, elsewhere\n");
+});
+
+test("an encrypted file copied from another workspace does not decrypt", async () => {
+  const vault = join(root, "swap.git");
+  const key = generateKey();
+  saveKey(key);
+  const mine = makeProject("swap-a", vault, { "AGENTS.md": "mine\n" });
+  saveConfig(mine, { ...loadConfig(mine)!, encryption: { keyId: key.id } });
+  await storeToVault(mine);
+  const other = makeProject("swap-b", vault, { "AGENTS.md": "theirs\n" });
+  saveConfig(other, { ...loadConfig(other)!, workspace: "other", projectId: "fedcba9876543210", encryption: { keyId: key.id } });
+  await storeToVault(other);
+
+  tamperVault(vault, (dir) => {
+    writeFileSync(join(dir, "vault/notes/AGENTS.md"), readFileSync(join(dir, "vault/other/AGENTS.md")));
+  });
+  await assert.rejects(pullFromVault(mine), /Could not decrypt vault\/notes\/AGENTS\.md/);
+  assert.equal(readFileSync(join(mine, "AGENTS.md"), "utf-8"), "mine\n");
+});
+
+test("a plaintext file in an encrypted workspace is refused", async () => {
+  const vault = join(root, "downgrade.git");
+  const key = generateKey();
+  saveKey(key);
+  const cwd = makeProject("downgrade", vault, { "AGENTS.md": "mine\n" });
+  saveConfig(cwd, { ...loadConfig(cwd)!, encryption: { keyId: key.id } });
+  await storeToVault(cwd);
+
+  tamperVault(vault, (dir) => writeFileSync(join(dir, "vault/notes/AGENTS.md"), "injected\n"));
+  await assert.rejects(pullFromVault(cwd), /vault\/notes\/AGENTS\.md is not encrypted/);
+  await assert.rejects(syncVault(cwd), /vault\/notes\/AGENTS\.md is not encrypted/);
+  assert.equal(readFileSync(join(cwd, "AGENTS.md"), "utf-8"), "mine\n");
+});
+
+test("moving an encrypted legacy workspace re-encrypts its files for their new path", async () => {
+  const vault = join(root, "legacy-enc.git");
+  const key = generateKey();
+  saveKey(key);
+  const cwd = makeProject("legacy-enc", vault, { "AGENTS.md": "a\n" });
+  saveConfig(cwd, { ...loadConfig(cwd)!, workspace: "legacy-enc", encryption: { keyId: key.id } });
+  await storeToVault(cwd);
+  const { workspace: _workspace, ...legacy } = loadConfig(cwd)!;
+  saveConfig(cwd, legacy);
+
+  await storeToVault(cwd);
+  assert.notEqual(loadConfig(cwd)!.workspace, "legacy-enc");
+  rmSync(join(cwd, "AGENTS.md"));
+  await pullFromVault(cwd);
+  assert.equal(readFileSync(join(cwd, "AGENTS.md"), "utf-8"), "a\n");
+});
+
+test("rekey re-encrypts templates that used the old key", async () => {
+  const vault = join(root, "rekey.git");
+  const cwd = makeProject("rekey", vault, { "AGENTS.md": "a\n" });
+  const old = generateKey();
+  saveKey(old);
+  saveConfig(cwd, { ...loadConfig(cwd)!, encryption: { keyId: old.id } });
+  await storeToVault(cwd);
+  await saveTemplate(cwd, "starter");
+
+  const { keyId, files } = await rekeyVault(cwd);
+  assert.equal(files, 2);
+  const show = (path: string) => execFileSync("git", ["--git-dir", vault, "show", `main:${path}`]);
+  assert.equal(getEncryptedKeyId(show("vault/notes/AGENTS.md")), keyId);
+  assert.equal(getEncryptedKeyId(show("vault/_templates/starter/AGENTS.md")), keyId);
+  assert.equal(loadConfig(cwd)!.encryption?.keyId, keyId);
+});
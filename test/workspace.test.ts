@@ -0,0 +1,97 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { spawnSync } from "child_process";
+import { mkdirSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  deriveWorkspaceName,
+  isClaimedByOther,
+  mergeRegistry,
+  normalizeRemote,
+  validateWorkspaceName,
+  type WorkspaceClaim,
+} from "../src/workspace.js";
+
+/** A folder named name inside a temp dir, optionally a git repo with that origin. */
+function makeProject(name: string, remote?: string): { dir: string; cleanup: () => void } {
+  const root = mkdtempSync(join(tmpdir(), "agvault-test-"));
+  const dir = join(root, name);
+  mkdirSync(dir);
+  if (remote !== undefined) {
+    spawnSync("git", ["init", "-q"], { cwd: dir });
+    spawnSync("git", ["remote", "add", "origin", remote], { cwd: dir });
+  }
+  return { dir, cleanup: () => rmSync(root, { recursive: true, force: true }) };
+}
+
+test("normalizeRemote makes HTTPS and SSH URLs of one repo equal", () => {
+  const expected = "github.com/acme/api";
+  for (const url of [
+    "https://github.com/Acme/API.git",
+    "https://github.com/acme/api",
+    "git@github.com:acme/api.git",
+    "ssh://git@github.com/acme/api.git",
+    "https://user@github.com/acme/api/",
+  ]) {
+    assert.equal(normalizeRemote(url), expected, url);
+  }
+});
+
+test("normalizeRemote keeps ports and local paths apart from owner names", () => {
+  assert.equal(normalizeRemote("ssh://git@host:2222/team/repo.git"), "host:2222/team/repo");
+  assert.equal(normalizeRemote("/srv/git/repo.git"), "/srv/git/repo");
+});
+
+test("deriveWorkspaceName uses owner and repo of the git remote", () => {
+  const project = makeProject("checkout", "git@github.com:Acme/Web_App.git");
+  try {
+    assert.equal(deriveWorkspaceName(project.dir), "acme-web_app");
+  } finally {
+    project.cleanup();
+  }
+});
+
+test("deriveWorkspaceName without a remote adds a random suffix to the folder name", () => {
+  const project = makeProject("My Notes");
+  try {
+    const a = deriveWorkspaceName(project.dir);
+    const b = deriveWorkspaceName(project.dir);
+    assert.match(a, /^my-notes-[0-9a-f]{6}$/);
+    assert.notEqual(a, b);
+    assert.equal(validateWorkspaceName(a), null);
+  } finally {
+    project.cleanup();
+  }
+});
+
+test("validateWorkspaceName refuses path separators and reserved names", () => {
+  assert.equal(validateWorkspaceName("acme-api"), null);
+  assert.notEqual(validateWorkspaceName("_shared"), null);
+  assert.notEqual(validateWorkspaceName("a/b"), null);
+  assert.notEqual(validateWorkspaceName(".."), null);
+});
+
+test("isClaimedByOther compares remotes, and projectId when neither side has one", () => {
+  const claim = (remote: string | null, project?: string) => ({ remote, claimedAt: "2026-01-01T00:00:00.000Z", ...(project ? { project } : {}) });
+  assert.equal(isClaimedByOther(undefined, null), false);
+  assert.equal(isClaimedByOther(claim("github.com/acme/api"), "git@github.com:acme/api.git"), false);
+  assert.equal(isClaimedByOther(claim("github.com/acme/api"), "https://github.com/acme/web"), true);
+  assert.equal(isClaimedByOther(claim("github.com/acme/api"), null, "p1"), true);
+  assert.equal(isClaimedByOther(claim(null, "p1"), "https://github.com/acme/api", "p1"), true);
+  assert.equal(isClaimedByOther(claim(null, "p1"), null, "p1"), false);
+  assert.equal(isClaimedByOther(claim(null, "p1"), null, "p2"), true);
+  assert.equal(isClaimedByOther(claim(null), null, "p1"), true);
+  assert.equal(isClaimedByOther(claim(null, "p1"), null), true);
+});
+
+test("mergeRegistry keeps each side's claims and drops names either side released", () => {
+  const claim = (project: string): WorkspaceClaim => ({ remote: null, project, claimedAt: "2026-01-01T00:00:00.000Z" });
+  const base = { kept: claim("k"), released: claim("r") };
+  assert.deepEqual(
+    mergeRegistry(base, { ...base, ours: claim("o") }, { kept: claim("k"), theirs: claim("t") }),
+    { kept: claim("k"), ours: claim("o"), theirs: claim("t") }
+  );
+  assert.deepEqual(mergeRegistry({}, { same: claim("s") }, { same: claim("s") }), { same: claim("s") });
+  assert.throws(() => mergeRegistry({}, { name: claim("a") }, { name: claim("b") }), /Workspace "name" was claimed by another project/);
+});